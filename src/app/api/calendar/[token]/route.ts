@@ -0,0 +1,76 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Workout } from '@/hooks/useWorkouts';
+import type { ScheduledWorkout } from '@/hooks/useScheduledWorkouts';
+import { buildCalendar, CalendarEvent } from '@/lib/ical';
+import { formatBlockType, getBlockSettings, roundsLabel } from '@/lib/blockTypes';
+import { formatLoad } from '@/lib/loadPrescription';
+import { formatPrescription } from '@/lib/setPrescription';
+
+export const dynamic = 'force-dynamic';
+
+type FeedEntry = Omit<ScheduledWorkout, 'workout'> & { workout: Workout | null };
+
+const EVENT_STATUS: Record<ScheduledWorkout['status'], CalendarEvent['status']> = {
+  planned: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  skipped: 'CANCELLED'
+};
+
+// Plain-text outline of the workout: one heading per block, one line per exercise
+function describeWorkout(workout: Workout): string {
+  return (workout.blocks || []).map(block => {
+    const settings = getBlockSettings(block);
+    const heading = `${block.name} · ${formatBlockType(settings)} · ${roundsLabel(settings.block_type)}: ${block.rounds}`;
+    const lines = (block.exercise_instances || []).map(instance => {
+      const details = [
+        formatPrescription(instance),
+        formatLoad(instance.load),
+        instance.tempo ? `tempo ${instance.tempo}` : null
+      ].filter(Boolean).join(', ');
+
+      return `- ${instance.exercise?.name || 'Ejercicio'}: ${details}`;
+    });
+
+    return [heading, ...lines].join('\n');
+  }).join('\n\n');
+}
+
+// Calendar apps subscribe to /api/calendar/<token>.ics without a session
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const feedToken = token.replace(/\.ics$/, '');
+
+  const cookieStore = cookies();
+  const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+
+  const { data, error } = await supabase.rpc('calendar_feed', { feed_token: feedToken });
+
+  if (error) {
+    console.error('API - /api/calendar - Error building feed:', error);
+    return new NextResponse('Error al generar el calendario', { status: 500 });
+  }
+
+  if (!data) {
+    return new NextResponse('Calendario no encontrado', { status: 404 });
+  }
+
+  const events: CalendarEvent[] = (data as FeedEntry[]).map(entry => ({
+    uid: `scheduled-workout-${entry.id}@resiliencepro`,
+    date: entry.scheduled_for,
+    summary: entry.status === 'completed'
+      ? `✓ ${entry.workout?.name || 'Entrenamiento'}`
+      : entry.workout?.name || 'Entrenamiento',
+    description: entry.workout ? describeWorkout(entry.workout) : undefined,
+    status: EVENT_STATUS[entry.status]
+  }));
+
+  return new NextResponse(buildCalendar({ name: 'ResiliencePro', events }), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="resiliencepro.ics"',
+      'Cache-Control': 'private, max-age=300'
+    }
+  });
+}
@@ -0,0 +1,69 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { getRoles, hasPermission } from '@/lib/authorization';
+import {
+  CreateWorkoutResponse,
+  validateWorkoutPayload,
+  ValidationIssue,
+  WorkoutApiError,
+  WorkoutApiErrorCode
+} from '@/lib/workoutValidation';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(status: number, code: WorkoutApiErrorCode, message: string, details?: ValidationIssue[]) {
+  return NextResponse.json<WorkoutApiError>(
+    { error: { code, message, ...(details ? { details } : {}) } },
+    { status }
+  );
+}
+
+// Postgres error codes raised by create_workout() or by constraint checks
+const DATABASE_ERROR_STATUS: Record<string, [number, WorkoutApiErrorCode]> = {
+  '28000': [401, 'unauthorized'],
+  '42501': [403, 'forbidden'],
+  '22023': [400, 'validation_failed'],
+  '23503': [400, 'validation_failed'],
+  '23514': [400, 'validation_failed']
+};
+
+export async function POST(request: Request) {
+  const cookieStore = cookies();
+  const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return errorResponse(401, 'unauthorized', 'Debes iniciar sesión para crear rutinas');
+  }
+
+  // Fast 403 from the session's roles claim, which is decoded without being
+  // verified. The real check is the trainer test inside create_workout()
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session || !hasPermission(await getRoles(supabase, session), 'create_workout')) {
+    return errorResponse(403, 'forbidden', 'Solo los entrenadores pueden crear rutinas');
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateWorkoutPayload(body);
+  if (!result.success) {
+    return errorResponse(400, 'validation_failed', 'La rutina contiene datos inválidos', result.issues);
+  }
+
+  // The whole nested workout is written inside one database transaction
+  const { data, error } = await supabase.rpc('create_workout', { payload: result.payload });
+
+  if (error) {
+    console.error('API - /api/workouts - Error creating workout:', error);
+    const [status, code] = DATABASE_ERROR_STATUS[error.code] || [500, 'database_error'];
+    return errorResponse(status, code, error.message);
+  }
+
+  return NextResponse.json<CreateWorkoutResponse>(data, { status: 201 });
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from "@/components/Header";
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkouts } from '@/hooks/useWorkouts';
+import { usePermissions } from '@/hooks/useRole';
+import { useTrainerClients } from '@/hooks/useTrainerClients';
+import { SCHEDULE_STATUSES, ScheduledWorkout, ScheduleStatus, useScheduledWorkouts } from '@/hooks/useScheduledWorkouts';
+import { CalendarView, calendarRange, formatCalendarTitle, shiftCalendar } from '@/lib/calendar';
+import { DAY_NUMBERS, DAYS_OF_WEEK, parseDateOnly, toDateOnly } from '@/lib/programs';
+import { embeddedRow } from '@/lib/utils';
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  planned: 'bg-blue-900/40 border-blue-700 text-white',
+  completed: 'bg-green-900/40 border-green-700 text-green-300',
+  skipped: 'bg-gray-800 border-gray-700 text-gray-500 line-through'
+};
+
+interface SchedulableWorkout {
+  id: number;
+  name: string;
+}
+
+export default function CalendarPage() {
+  const router = useRouter();
+  const { user, supabase } = useAuth();
+  const { workouts } = useWorkouts();
+  const { can } = usePermissions();
+  const { relationships } = useTrainerClients(can('view_clients'));
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedDate, setSelectedDate] = useState(() => toDateOnly(new Date()));
+  const [athleteId, setAthleteId] = useState('');
+  const [clientWorkouts, setClientWorkouts] = useState<SchedulableWorkout[]>([]);
+  const [workoutToAdd, setWorkoutToAdd] = useState(0);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const days = calendarRange(cursor, view);
+  const from = toDateOnly(days[0]);
+  const to = toDateOnly(days[days.length - 1]);
+  const {
+    scheduled,
+    loading,
+    error,
+    scheduleWorkout,
+    updateScheduledWorkout,
+    removeScheduledWorkout
+  } = useScheduledWorkouts(from, to, athleteId || undefined);
+
+  const acceptedClients = relationships.filter(rel => rel.status === 'accepted');
+  const isOwnCalendar = !athleteId;
+  const today = toDateOnly(new Date());
+
+  // Trainers can only schedule, for a client, the workouts they assigned to them
+  useEffect(() => {
+    async function fetchClientWorkouts() {
+      if (!athleteId || !user) {
+        setClientWorkouts([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('user_workouts')
+        .select('workout:workouts (id, name)')
+        .eq('user_id', athleteId)
+        .eq('trainer_id', user.id);
+
+      if (error) {
+        console.error('Error fetching client workouts:', error);
+        return;
+      }
+
+      setClientWorkouts((data || []).flatMap(row => {
+        const workout = embeddedRow<SchedulableWorkout>(row.workout);
+        return workout ? [workout] : [];
+      }));
+    }
+
+    fetchClientWorkouts();
+  }, [athleteId, user, supabase]);
+
+  const schedulable: SchedulableWorkout[] = isOwnCalendar ? workouts : clientWorkouts;
+
+  const entriesOn = (date: string) => scheduled.filter(entry => entry.scheduled_for === date);
+
+  const handleDrop = async (date: string) => {
+    const entry = scheduled.find(item => item.id === draggedId);
+    setDraggedId(null);
+    if (!entry || entry.scheduled_for === date) return;
+
+    try {
+      await updateScheduledWorkout(entry.id, { scheduled_for: date });
+    } catch (err) {
+      console.error('Error moving scheduled workout:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  const handleStatusChange = async (entry: ScheduledWorkout, status: ScheduleStatus) => {
+    try {
+      await updateScheduledWorkout(entry.id, { status });
+    } catch (err) {
+      console.error('Error updating scheduled workout:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  const handleRemove = async (entry: ScheduledWorkout) => {
+    if (!window.confirm(`¿Quitar "${entry.workout?.name}" del calendario?`)) return;
+
+    try {
+      await removeScheduledWorkout(entry.id);
+    } catch (err) {
+      console.error('Error removing scheduled workout:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workoutToAdd) return;
+
+    try {
+      setIsSubmitting(true);
+      await scheduleWorkout(workoutToAdd, selectedDate);
+      setWorkoutToAdd(0);
+    } catch (err) {
+      console.error('Error scheduling workout:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAthleteChange = (value: string) => {
+    setAthleteId(value);
+    setWorkoutToAdd(0);
+  };
+
+  const selectedEntries = entriesOn(selectedDate);
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/')}
+                className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+                aria-label="Back to home"
+              >
+                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-white">Calendario</h1>
+                <p className="text-gray-400 mt-2">
+                  Planifica tus rutinas y arrástralas para cambiarlas de día
+                </p>
+              </div>
+            </div>
+            {can('view_clients') && acceptedClients.length > 0 && (
+              <select
+                value={athleteId}
+                onChange={(e) => handleAthleteChange(e.target.value)}
+                className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Calendario de"
+              >
+                <option value="">Mi calendario</option>
+                {acceptedClients.map(rel => (
+                  <option key={rel.id} value={rel.user_id}>
+                    {rel.client?.name || rel.client?.email || 'Usuario Sin Nombre'}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setCursor(shiftCalendar(cursor, view, -1))}
+                className="p-2 rounded-md bg-gray-800 hover:bg-gray-700 text-white cursor-pointer"
+                aria-label="Anterior"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setCursor(new Date())}
+                className="px-3 py-2 rounded-md bg-gray-800 hover:bg-gray-700 text-white text-sm cursor-pointer"
+              >
+                Hoy
+              </button>
+              <button
+                onClick={() => setCursor(shiftCalendar(cursor, view, 1))}
+                className="p-2 rounded-md bg-gray-800 hover:bg-gray-700 text-white cursor-pointer"
+                aria-label="Siguiente"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+              <h2 className="ml-2 text-xl font-semibold text-white capitalize">{formatCalendarTitle(cursor, view)}</h2>
+            </div>
+            <div className="inline-flex rounded-md overflow-hidden border border-gray-700">
+              {(['month', 'week'] as CalendarView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-4 py-2 text-sm cursor-pointer ${view === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {option === 'month' ? 'Mes' : 'Semana'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-red-500 mb-4">Error: {error}</p>}
+
+          <div className={`bg-gray-900 rounded-lg p-4 ${loading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-7 gap-2 mb-2">
+              {DAY_NUMBERS.map(day => (
+                <div key={day} className="text-xs font-medium text-gray-400 text-center">{DAYS_OF_WEEK[day]}</div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7 gap-2">
+              {days.map(day => {
+                const date = toDateOnly(day);
+                const isOutsideMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+
+                return (
+                  <div
+                    key={date}
+                    onClick={() => setSelectedDate(date)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(date)}
+                    className={`rounded-md border p-2 cursor-pointer transition-colors ${view === 'month' ? 'min-h-24' : 'min-h-64'} ${
+                      date === selectedDate ? 'border-blue-600' : 'border-gray-800 hover:border-gray-700'
+                    } ${isOutsideMonth ? 'opacity-40' : ''}`}
+                  >
+                    <div className={`text-sm mb-1 ${date === today ? 'text-blue-400 font-bold' : 'text-gray-400'}`}>
+                      {day.getDate()}
+                    </div>
+                    <div className="space-y-1">
+                      {entriesOn(date).map(entry => (
+                        <div
+                          key={entry.id}
+                          draggable
+                          onDragStart={() => setDraggedId(entry.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          className={`px-2 py-1 rounded border text-xs truncate cursor-move ${STATUS_STYLES[entry.status]}`}
+                          title={`${entry.workout?.name} · ${SCHEDULE_STATUSES[entry.status]}`}
+                        >
+                          {entry.workout?.name}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="mt-6 bg-gray-900 rounded-lg p-6">
+            <h3 className="text-xl font-semibold text-white mb-4 capitalize">
+              {parseDateOnly(selectedDate).toLocaleDateString('es', { weekday: 'long', day: 'numeric', month: 'long' })}
+            </h3>
+
+            {selectedEntries.length === 0 ? (
+              <p className="text-gray-400 mb-4">No hay rutinas planificadas este día.</p>
+            ) : (
+              <ul className="divide-y divide-gray-800 mb-4">
+                {selectedEntries.map(entry => (
+                  <li key={entry.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <Link href={`/workouts/${entry.workout_id}`} className="text-white font-medium hover:text-blue-400">
+                        {entry.workout?.name}
+                      </Link>
+                      <p className="text-xs text-gray-400">{SCHEDULE_STATUSES[entry.status]}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {isOwnCalendar && entry.status === 'planned' && (
+                        <Link
+                          href={`/workouts/${entry.workout_id}/play`}
+                          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm"
+                        >
+                          Comenzar
+                        </Link>
+                      )}
+                      {(Object.keys(SCHEDULE_STATUSES) as ScheduleStatus[])
+                        .filter(status => status !== entry.status)
+                        .map(status => (
+                          <button
+                            key={status}
+                            onClick={() => handleStatusChange(entry, status)}
+                            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-md text-gray-300 text-sm cursor-pointer"
+                          >
+                            {status === 'planned' ? 'Volver a planificar' : `Marcar ${SCHEDULE_STATUSES[status].toLowerCase()}`}
+                          </button>
+                        ))}
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        className="px-3 py-1.5 text-red-500 hover:text-red-400 text-sm cursor-pointer"
+                      >
+                        Quitar
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {schedulable.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {isOwnCalendar
+                  ? 'No tienes rutinas para planificar todavía.'
+                  : 'Asigna rutinas a este cliente para poder planificarlas.'}
+              </p>
+            ) : (
+              <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+                <select
+                  value={workoutToAdd}
+                  onChange={(e) => setWorkoutToAdd(parseInt(e.target.value))}
+                  className="flex-1 min-w-[12rem] px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Rutina a planificar"
+                >
+                  <option value={0}>Selecciona una rutina</option>
+                  {schedulable.map(workout => (
+                    <option key={workout.id} value={workout.id}>{workout.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={!workoutToAdd || isSubmitting}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md cursor-pointer disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Guardando...' : 'Planificar'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,220 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import Header from '@/components/Header';
+import ProgressPhotos from '@/components/ProgressPhotos';
+import { ageFromDateOfBirth, PREFERRED_WORKOUT_TIMES, PreferredWorkoutTime, Profile } from '@/lib/profile';
+import { scheduleAdherence, sessionTonnage } from '@/lib/progress';
+import { addDays } from '@/lib/calendar';
+import { toDateOnly } from '@/lib/programs';
+import { embeddedRow } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+// Window used for the adherence figure
+const ADHERENCE_DAYS = 28;
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('es', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+// Rendered on the server: the relationship check happens before any client
+// data is fetched, so only a trainer with an accepted relationship sees it
+export default async function ClientProfilePage({ params }: { params: Promise<{ uuid: string }> }) {
+  const { uuid } = await params;
+  const cookieStore = cookies();
+  const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+
+  const { data: relationship } = await supabase
+    .from('trainer_user_relationships')
+    .select('id, created_at')
+    .eq('trainer_id', user.id)
+    .eq('user_id', uuid)
+    .eq('status', 'accepted')
+    .maybeSingle();
+
+  if (!relationship) notFound();
+
+  const today = new Date();
+
+  const [profileResult, assignedResult, sessionsResult, scheduleResult] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('uuid', uuid)
+      .single(),
+    supabase
+      .from('user_workouts')
+      .select('id, workout:workouts (id, name)')
+      .eq('user_id', uuid)
+      .eq('trainer_id', user.id),
+    supabase
+      .from('workout_sessions')
+      .select('*, set_logs (*), workout:workouts (id, name)')
+      .eq('user_id', uuid)
+      .order('started_at', { ascending: false })
+      .limit(20),
+    supabase
+      .from('scheduled_workouts')
+      .select('scheduled_for, status')
+      .eq('user_id', uuid)
+      .gte('scheduled_for', toDateOnly(addDays(today, -ADHERENCE_DAYS)))
+  ]);
+
+  const error = profileResult.error || assignedResult.error || sessionsResult.error || scheduleResult.error;
+  if (error) {
+    console.error('Error loading client profile:', error);
+  }
+
+  const profile = profileResult.data as Profile | null;
+  if (!profile) notFound();
+
+  const assignedWorkouts = (assignedResult.data || []).flatMap(row => {
+    const workout = embeddedRow(row.workout);
+    return workout ? [workout] : [];
+  });
+  const sessions = sessionsResult.data || [];
+  const adherence = scheduleAdherence(scheduleResult.data || [], today);
+  const clientName = profile.name || profile.email || 'Usuario Sin Nombre';
+  const preferredTimes = (profile.preferred_workout_time || [])
+    .map(time => PREFERRED_WORKOUT_TIMES[time as PreferredWorkoutTime] || time);
+
+  return (
+    <>
+      <Header />
+      <main className="py-8 px-4 max-w-7xl mx-auto bg-black min-h-screen">
+        <div className="space-y-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/clientes"
+              className="p-2 rounded-full hover:bg-gray-800 transition-colors"
+              aria-label="Back to clients"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="w-16 h-16 rounded-full overflow-hidden border border-gray-700 bg-gray-800 flex-shrink-0 flex items-center justify-center">
+              {profile.image ? (
+                <Image
+                  src={profile.image}
+                  alt={clientName}
+                  width={64}
+                  height={64}
+                  className="object-cover w-full h-full"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center bg-blue-900 text-white text-xl font-medium">
+                  {(clientName.charAt(0) || '?').toUpperCase()}
+                </div>
+              )}
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold text-white truncate">{clientName}</h1>
+              <p className="text-gray-400 mt-1 truncate">
+                {profile.email} · Cliente desde {formatDate(relationship.created_at)}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Altura</p>
+              <p className="text-2xl font-bold text-white mt-1">{profile.height ? `${profile.height} cm` : '—'}</p>
+            </div>
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Peso</p>
+              <p className="text-2xl font-bold text-white mt-1">{profile.weight ? `${profile.weight} kg` : '—'}</p>
+            </div>
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Edad</p>
+              <p className="text-2xl font-bold text-white mt-1">
+                {profile.date_of_birth ? `${ageFromDateOfBirth(profile.date_of_birth, today)} años` : '—'}
+              </p>
+            </div>
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Horario preferido</p>
+              <p className="text-lg font-semibold text-white mt-1">{preferredTimes.length > 0 ? preferredTimes.join(', ') : '—'}</p>
+            </div>
+          </div>
+
+          <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-white mb-2">Adherencia (últimos {ADHERENCE_DAYS} días)</h2>
+            {adherence.rate === null ? (
+              <p className="text-gray-400">No hay entrenamientos planificados en este periodo.</p>
+            ) : (
+              <>
+                <p className="text-4xl font-bold text-white">{adherence.rate}%</p>
+                <p className="text-sm text-gray-400 mt-1">
+                  {adherence.completed} completados · {adherence.missed} sin completar
+                </p>
+                <div className="h-2 bg-gray-800 rounded-full mt-3 overflow-hidden">
+                  <div className="h-2 bg-green-500" style={{ width: `${adherence.rate}%` }} />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-4">Rutinas asignadas</h2>
+              {assignedWorkouts.length === 0 ? (
+                <p className="text-gray-400">Todavía no le has asignado rutinas.</p>
+              ) : (
+                <ul className="divide-y divide-gray-800">
+                  {assignedWorkouts.map(workout => (
+                    <li key={workout.id} className="py-3">
+                      <Link href={`/workouts/${workout.id}`} className="text-white hover:text-blue-400">
+                        {workout.name}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-4">Sesiones recientes</h2>
+              {sessions.length === 0 ? (
+                <p className="text-gray-400">Todavía no ha registrado sesiones.</p>
+              ) : (
+                <ul className="divide-y divide-gray-800">
+                  {sessions.map(session => {
+                    const setCount = session.set_logs?.length || 0;
+                    const tonnage = Math.round(sessionTonnage(session));
+
+                    return (
+                      <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <Link href={`/workouts/${session.workout_id}`} className="text-white hover:text-blue-400 truncate block">
+                            {session.workout?.name || 'Rutina eliminada'}
+                          </Link>
+                          <p className="text-xs text-gray-400">
+                            {formatDate(session.started_at)} · {setCount} {setCount === 1 ? 'serie' : 'series'}
+                            {tonnage > 0 && ` · ${tonnage.toLocaleString('es')} kg`}
+                          </p>
+                        </div>
+                        <span className={`text-xs whitespace-nowrap ${session.finished_at ? 'text-green-400' : 'text-yellow-400'}`}>
+                          {session.finished_at ? 'Finalizada' : 'Sin finalizar'}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <ProgressPhotos athleteId={uuid} />
+        </div>
+      </main>
+    </>
+  );
+}
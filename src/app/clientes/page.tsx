@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { useTrainerClients, RelationshipStatus } from '@/hooks/useTrainerClients';
+
+const STATUS_TABS: { value: RelationshipStatus; label: string }[] = [
+  { value: 'pending', label: 'Pendientes' },
+  { value: 'accepted', label: 'Aceptados' },
+  { value: 'rejected', label: 'Rechazados' },
+];
+
+export default function ClientsPage() {
+  const { relationships, counts, loading, error, updateStatus, removeRelationship } = useTrainerClients();
+  const [activeTab, setActiveTab] = useState<RelationshipStatus>('pending');
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const visibleRelationships = relationships.filter(rel => rel.status === activeTab);
+
+  // Format date for display
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'Nunca';
+    const date = new Date(dateString);
+    return date.toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleUpdateStatus = async (relationshipId: number, status: RelationshipStatus) => {
+    try {
+      setProcessingId(relationshipId);
+      await updateStatus(relationshipId, status);
+    } catch (err) {
+      console.error('Error updating request:', err);
+      alert(err instanceof Error ? err.message : 'Error inesperado');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleRemove = async (relationshipId: number, clientName: string) => {
+    if (!window.confirm(`¿Estás seguro de que quieres eliminar a "${clientName}" de tus clientes?`)) return;
+
+    try {
+      setProcessingId(relationshipId);
+      await removeRelationship(relationshipId);
+    } catch (err) {
+      console.error('Error removing client:', err);
+      alert(err instanceof Error ? err.message : 'Error inesperado');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="py-8 px-4 max-w-7xl mx-auto bg-black min-h-screen">
+        <div className="space-y-8">
+          {/* Page title */}
+          <div>
+            <h1 className="text-3xl font-bold text-white">
+              Mis <span className="text-blue-500">Clientes</span>
+            </h1>
+            <p className="text-gray-400 mt-2">Gestiona las solicitudes de los usuarios que quieren entrenar contigo</p>
+          </div>
+
+          {/* Status tabs */}
+          <div className="flex gap-2 border-b border-gray-800">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab.value}
+                onClick={() => setActiveTab(tab.value)}
+                className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors cursor-pointer ${
+                  activeTab === tab.value
+                    ? 'border-blue-500 text-white'
+                    : 'border-transparent text-gray-400 hover:text-white'
+                }`}
+              >
+                {tab.label}
+                <span className="ml-2 bg-gray-800 text-gray-300 text-xs px-2 py-0.5 rounded-full">
+                  {counts[tab.value]}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center p-12">
+              <svg className="animate-spin w-10 h-10 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            </div>
+          ) : error ? (
+            <div className="bg-red-900/20 border border-red-900 text-red-300 p-4 rounded-lg">
+              <p>{error}</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {visibleRelationships.length === 0 ? (
+                <div className="col-span-full p-8 text-center text-gray-400 bg-gray-900 rounded-lg shadow-lg border border-gray-800">
+                  {activeTab === 'pending'
+                    ? 'No tienes solicitudes pendientes.'
+                    : activeTab === 'accepted'
+                      ? 'Todavía no tienes clientes aceptados.'
+                      : 'No has rechazado ninguna solicitud.'}
+                </div>
+              ) : (
+                visibleRelationships.map(relationship => {
+                  const client = relationship.client;
+                  const clientName = client?.name || client?.email || 'Usuario Sin Nombre';
+                  const isProcessing = processingId === relationship.id;
+
+                  return (
+                    <div key={relationship.id} className="bg-gray-900 rounded-lg shadow-lg overflow-hidden border border-gray-800 hover:border-gray-700 transition-colors">
+                      <div className="p-6">
+                        <div className="flex items-center gap-4 mb-4">
+                          <div className="w-16 h-16 rounded-full overflow-hidden border border-gray-700 bg-gray-800 flex-shrink-0 flex items-center justify-center">
+                            {client?.image ? (
+                              <Image
+                                src={client.image}
+                                alt={clientName}
+                                width={64}
+                                height={64}
+                                className="object-cover w-full h-full"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center bg-blue-900 text-white text-xl font-medium">
+                                {(clientName.charAt(0) || '?').toUpperCase()}
+                              </div>
+                            )}
+                          </div>
+                          <div className="min-w-0">
+                            <div className="font-medium text-white text-xl truncate">{clientName}</div>
+                            <div className="text-gray-400 text-sm mt-1 truncate">{client?.email}</div>
+                          </div>
+                        </div>
+
+                        <div className="text-sm text-gray-400 mb-4">
+                          <span className="block text-xs text-gray-500">Solicitud enviada</span>
+                          {formatDate(relationship.created_at)}
+                        </div>
+
+                        <div className="mt-6 flex gap-3">
+                          {relationship.status === 'accepted' && (
+                            <Link
+                              href={`/clientes/${relationship.user_id}`}
+                              className="flex-1 py-2 px-4 rounded-lg bg-blue-700 hover:bg-blue-600 text-white text-center transition-colors"
+                            >
+                              Ver perfil
+                            </Link>
+                          )}
+                          {relationship.status !== 'accepted' && (
+                            <button
+                              onClick={() => handleUpdateStatus(relationship.id, 'accepted')}
+                              disabled={isProcessing}
+                              className="flex-1 py-2 px-4 rounded-lg bg-blue-700 hover:bg-blue-600 text-white transition-colors cursor-pointer disabled:opacity-50"
+                            >
+                              Aceptar
+                            </button>
+                          )}
+                          {relationship.status === 'pending' && (
+                            <button
+                              onClick={() => handleUpdateStatus(relationship.id, 'rejected')}
+                              disabled={isProcessing}
+                              className="flex-1 py-2 px-4 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors cursor-pointer disabled:opacity-50"
+                            >
+                              Rechazar
+                            </button>
+                          )}
+                          {relationship.status !== 'pending' && (
+                            <button
+                              onClick={() => handleRemove(relationship.id, clientName)}
+                              disabled={isProcessing}
+                              className="flex-1 py-2 px-4 rounded-lg bg-gray-800 text-red-400 hover:bg-gray-700 transition-colors cursor-pointer disabled:opacity-50"
+                            >
+                              Eliminar
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
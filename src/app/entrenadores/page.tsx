@@ -320,6 +320,22 @@ export default function TrainersPage() {
                               )}
                               Solicitud Pendiente
                             </button>
+                          ) : trainer.relationship.status === 'rejected' ? (
+                            <div className="space-y-2">
+                              <div className="w-full py-2 px-4 rounded-lg bg-red-900/20 text-red-400 text-center">
+                                <svg className="w-5 h-5 mr-2 inline-block" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                                Solicitud Rechazada
+                              </div>
+                              <button
+                                onClick={() => handleSendRequest(trainer.uuid)}
+                                className="w-full py-2 px-4 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors flex items-center justify-center"
+                                disabled={processingId === trainer.uuid}
+                              >
+                                Volver a Enviar
+                              </button>
+                            </div>
                           ) : (
                             <div className="w-full py-2 px-4 rounded-lg bg-green-900/20 text-green-400 text-center">
                               <svg className="w-5 h-5 mr-2 inline-block" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
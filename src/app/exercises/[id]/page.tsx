@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Image from 'next/image';
+import Header from "@/components/Header";
+import VideoModal from '@/components/VideoModal';
+import { Exercise } from '@/components/ExerciseCard';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useExerciseLogs } from '@/hooks/useExerciseLogs';
+import { useOneRepMaxFormula } from '@/hooks/useOneRepMaxFormula';
+import { DIFFICULTIES, EQUIPMENT, getTaxonomy, MOVEMENT_PATTERNS, MUSCLE_GROUPS, TAXONOMY_COLUMNS } from '@/lib/exerciseTaxonomy';
+import {
+  computeRecords,
+  estimateOneRepMax,
+  ONE_REP_MAX_FORMULAS,
+  OneRepMaxFormula,
+  RECORD_KINDS,
+  RecordEntry
+} from '@/lib/personalRecords';
+
+type Tab = 'details' | 'records';
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+export default function ExerciseDetailsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const exerciseId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<Tab>('details');
+  const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
+  const { logs, loading: logsLoading, error: logsError } = useExerciseLogs(exerciseId);
+  const { formula, setFormula } = useOneRepMaxFormula();
+
+  useEffect(() => {
+    const fetchExercise = async () => {
+      if (!exerciseId) return;
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('exercises')
+          .select(`id, name, description, image, video, created_by, created_at, ${TAXONOMY_COLUMNS}`)
+          .eq('id', exerciseId)
+          .single();
+
+        if (error) throw new Error(`Error al cargar el ejercicio: ${error.message}`);
+
+        setExercise(data);
+      } catch (err) {
+        console.error('Error fetching exercise:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar el ejercicio');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExercise();
+  }, [exerciseId]);
+
+  const records = useMemo(() => computeRecords(logs, formula), [logs, formula]);
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error || !exercise) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error || 'Ejercicio no encontrado'}</div>
+        </div>
+      </>
+    );
+  }
+
+  const taxonomy = getTaxonomy(exercise);
+
+  const RecordCard = ({ label, entry, unit }: { label: string; entry: RecordEntry | null; unit: string }) => (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <p className="text-sm text-gray-400">{label}</p>
+      {entry ? (
+        <>
+          <p className="text-3xl font-bold text-white mt-1">{entry.value} <span className="text-lg text-gray-400">{unit}</span></p>
+          <p className="text-xs text-gray-500 mt-1">
+            {entry.log.weight} kg × {entry.log.reps} · {formatDate(entry.log.completed_at)}
+          </p>
+        </>
+      ) : (
+        <p className="text-2xl font-bold text-gray-600 mt-1">—</p>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8 flex items-center">
+            <button
+              onClick={() => router.back()}
+              className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+              aria-label="Back"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <h1 className="text-3xl font-bold text-white">{exercise.name}</h1>
+          </div>
+
+          <div className="mb-6 flex border-b border-gray-800">
+            {([['details', 'Detalles'], ['records', 'Récords']] as [Tab, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`px-4 py-2 -mb-px border-b-2 font-medium cursor-pointer transition-colors ${
+                  tab === value ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'details' ? (
+            <div className="bg-gray-900 rounded-lg p-6 flex flex-col md:flex-row gap-6">
+              {exercise.image && (
+                <div className="md:w-1/3">
+                  <Image
+                    src={exercise.image}
+                    alt={exercise.name}
+                    width={400}
+                    height={300}
+                    className="rounded-lg object-cover w-full"
+                  />
+                </div>
+              )}
+              <div className="flex-1 space-y-3">
+                {exercise.description && <p className="text-gray-300">{exercise.description}</p>}
+                {taxonomy.primary_muscle_groups.length > 0 && (
+                  <p className="text-gray-400">
+                    Músculos principales: {taxonomy.primary_muscle_groups.map(group => MUSCLE_GROUPS[group]).join(', ')}
+                  </p>
+                )}
+                {taxonomy.secondary_muscle_groups.length > 0 && (
+                  <p className="text-gray-400">
+                    Músculos secundarios: {taxonomy.secondary_muscle_groups.map(group => MUSCLE_GROUPS[group]).join(', ')}
+                  </p>
+                )}
+                {taxonomy.equipment.length > 0 && (
+                  <p className="text-gray-400">Equipamiento: {taxonomy.equipment.map(item => EQUIPMENT[item]).join(', ')}</p>
+                )}
+                {taxonomy.movement_pattern && (
+                  <p className="text-gray-400">Patrón: {MOVEMENT_PATTERNS[taxonomy.movement_pattern]}</p>
+                )}
+                {taxonomy.difficulty && (
+                  <p className="text-gray-400">Dificultad: {DIFFICULTIES[taxonomy.difficulty]}</p>
+                )}
+                {taxonomy.is_unilateral && <p className="text-gray-400">Unilateral</p>}
+                {exercise.video && (
+                  <button
+                    onClick={() => setIsVideoModalOpen(true)}
+                    className="inline-flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm cursor-pointer"
+                  >
+                    Ver video
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : logsLoading ? (
+            <div className="flex justify-center p-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : logsError ? (
+            <div className="text-red-500">Error: {logsError}</div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-end gap-2">
+                <label htmlFor="one-rep-max-formula" className="text-sm text-gray-400">Fórmula 1RM</label>
+                <select
+                  id="one-rep-max-formula"
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value as OneRepMaxFormula)}
+                  className="px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(ONE_REP_MAX_FORMULAS) as OneRepMaxFormula[]).map(option => (
+                    <option key={option} value={option}>{ONE_REP_MAX_FORMULAS[option]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <RecordCard label={RECORD_KINDS.weight} entry={records.bestWeight} unit="kg" />
+                <RecordCard label={RECORD_KINDS.e1rm} entry={records.bestE1rm} unit="kg" />
+                <RecordCard label={RECORD_KINDS.volume} entry={records.bestVolume} unit="kg" />
+              </div>
+
+              <div className="bg-gray-900 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4">{RECORD_KINDS.reps_at_weight}</h2>
+                {records.repsAtWeight.length === 0 ? (
+                  <p className="text-gray-400">
+                    Registra series con peso y repeticiones para ver tus récords.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="py-2 font-medium">Peso</th>
+                        <th className="py-2 font-medium">Mejores reps</th>
+                        <th className="py-2 font-medium">1RM estimado</th>
+                        <th className="py-2 font-medium">Fecha</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-800">
+                      {records.repsAtWeight.map(entry => (
+                        <tr key={entry.weight} className="text-white">
+                          <td className="py-2">{entry.weight} kg</td>
+                          <td className="py-2">{entry.reps}</td>
+                          <td className="py-2">{estimateOneRepMax(entry.weight, entry.reps, formula) ?? '—'} kg</td>
+                          <td className="py-2 text-gray-400">{formatDate(entry.log.completed_at)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {exercise.video && isVideoModalOpen && (
+        <VideoModal
+          isOpen={isVideoModalOpen}
+          onClose={() => setIsVideoModalOpen(false)}
+          videoUrl={exercise.video}
+          title={exercise.name}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from "@/components/Header";
+import ExerciseCard, { Exercise } from '@/components/ExerciseCard';
+import CreateExerciseModal from '@/components/CreateExerciseModal';
+import ExerciseFilterBar from '@/components/ExerciseFilterBar';
+import { useExercises } from '@/hooks/useExercises';
+import { EMPTY_FILTERS, ExerciseFilters, matchesFilters } from '@/lib/exerciseTaxonomy';
+
+type SortOption = 'newest' | 'oldest' | 'name-asc' | 'name-desc';
+type LayoutOption = 'grid' | 'list';
+
+const SORT_LABELS: Record<SortOption, string> = {
+  'newest': 'Más recientes',
+  'oldest': 'Más antiguos',
+  'name-asc': 'Nombre (A-Z)',
+  'name-desc': 'Nombre (Z-A)'
+};
+
+const compareExercises = (sort: SortOption) => (a: Exercise, b: Exercise) => {
+  switch (sort) {
+    case 'name-asc':
+      return a.name.localeCompare(b.name, 'es');
+    case 'name-desc':
+      return b.name.localeCompare(a.name, 'es');
+    case 'oldest':
+      return (a.created_at || '').localeCompare(b.created_at || '');
+    case 'newest':
+    default:
+      return (b.created_at || '').localeCompare(a.created_at || '');
+  }
+};
+
+export default function ExercisesPage() {
+  const router = useRouter();
+  const { exercises, loading, error, refreshExercises } = useExercises();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<ExerciseFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [layout, setLayout] = useState<LayoutOption>('grid');
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+
+  const handleBackClick = () => {
+    router.push('/');
+  };
+
+  // Filter by name or description and taxonomy, then apply the selected sort
+  const visibleExercises = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+
+    return exercises
+      .filter(exercise =>
+        !term ||
+        exercise.name.toLowerCase().includes(term) ||
+        (exercise.description || '').toLowerCase().includes(term)
+      )
+      .filter(exercise => matchesFilters(exercise, filters))
+      .sort(compareExercises(sort));
+  }, [exercises, searchTerm, filters, sort]);
+
+  if (loading && exercises.length === 0) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error}</div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <button
+                onClick={handleBackClick}
+                className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+                aria-label="Back to home"
+              >
+                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-white">Ejercicios</h1>
+                <p className="text-gray-400 mt-2">
+                  Tu biblioteca de ejercicios para construir rutinas
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setIsCreateModalOpen(true)}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors cursor-pointer"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              </svg>
+              Nuevo Ejercicio
+            </button>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center gap-4">
+            <input
+              type="text"
+              placeholder="Buscar ejercicios..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full max-w-md px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortOption)}
+              className="px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Ordenar ejercicios"
+            >
+              {(Object.keys(SORT_LABELS) as SortOption[]).map(option => (
+                <option key={option} value={option}>{SORT_LABELS[option]}</option>
+              ))}
+            </select>
+            <div className="ml-auto flex rounded-md overflow-hidden border border-gray-700">
+              <button
+                onClick={() => setLayout('grid')}
+                className={`p-2 transition-colors cursor-pointer ${layout === 'grid' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                aria-label="Vista en cuadrícula"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setLayout('list')}
+                className={`p-2 transition-colors cursor-pointer ${layout === 'list' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                aria-label="Vista en lista"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <ExerciseFilterBar filters={filters} onChange={setFilters} />
+          </div>
+
+          {visibleExercises.length === 0 ? (
+            <div className="bg-gray-900 rounded-lg p-8 text-center">
+              <p className="text-gray-400 text-lg">
+                {exercises.length === 0
+                  ? 'Todavía no has creado ejercicios. Crea el primero para empezar a construir rutinas.'
+                  : 'No hay ejercicios que coincidan con tu búsqueda o filtros.'}
+              </p>
+            </div>
+          ) : layout === 'grid' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {visibleExercises.map(exercise => (
+                <ExerciseCard
+                  key={exercise.id}
+                  exercise={exercise}
+                  layout="vertical"
+                  onRefetch={refreshExercises}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {visibleExercises.map(exercise => (
+                <ExerciseCard
+                  key={exercise.id}
+                  exercise={exercise}
+                  layout="horizontal"
+                  onRefetch={refreshExercises}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <CreateExerciseModal
+        isOpen={isCreateModalOpen}
+        onClose={() => setIsCreateModalOpen(false)}
+        onCreated={refreshExercises}
+      />
+    </>
+  );
+}
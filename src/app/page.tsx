@@ -2,6 +2,9 @@
 
 import { useAuth } from "@/contexts/AuthContext";
 import Header from "@/components/Header";
+import TodayWorkout from "@/components/TodayWorkout";
+import UpcomingWeek from "@/components/UpcomingWeek";
+import ProgressDashboard from "@/components/ProgressDashboard";
 
 export default function Home() {
   const { user } = useAuth();
@@ -10,17 +13,36 @@ export default function Home() {
     userId: user?.id,
   });
 
+  if (!user) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen flex flex-col items-center justify-center p-8 bg-black">
+          <div className="max-w-7xl mx-auto text-center">
+            <h1 className="text-5xl md:text-7xl font-bold text-white mb-6">
+              Bienvenido a <span className="text-blue-500">ResiliencePro</span>
+            </h1>
+            <p className="text-xl text-gray-400 max-w-3xl mx-auto">
+              Tu compañero personal de entrenamiento para desarrollar fuerza y resiliencia.
+            </p>
+          </div>
+        </main>
+      </>
+    );
+  }
+
   return (
     <>
       <Header />
-      <main className="min-h-screen flex flex-col items-center justify-center p-8 bg-black">
-        <div className="max-w-7xl mx-auto text-center">
-          <h1 className="text-5xl md:text-7xl font-bold text-white mb-6">
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-5xl mx-auto">
+          <h1 className="text-3xl font-bold text-white">
             Bienvenido a <span className="text-blue-500">ResiliencePro</span>
           </h1>
-          <p className="text-xl text-gray-400 max-w-3xl mx-auto">
-            Tu compañero personal de entrenamiento para desarrollar fuerza y resiliencia.
-          </p>
+          <p className="text-gray-400 mt-2 mb-8">Así va tu entrenamiento.</p>
+          <TodayWorkout />
+          <ProgressDashboard />
+          <UpcomingWeek />
         </div>
       </main>
     </>
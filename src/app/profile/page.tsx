@@ -5,22 +5,12 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
-
-interface Profile {
-  id: number;
-  uuid: string;
-  email: string;
-  name?: string;
-  image?: string;
-  phone?: string;
-  providers?: string[];
-  provider_type?: string;
-  last_sign_in_at?: string;
-  height?: number;
-  weight?: number;
-  date_of_birth?: string;
-  preferred_workout_time?: string[];
-}
+import CalendarFeedSettings from '@/components/CalendarFeedSettings';
+import BodyMeasurements from '@/components/BodyMeasurements';
+import ProgressPhotos from '@/components/ProgressPhotos';
+import { useBodyMeasurements } from '@/hooks/useBodyMeasurements';
+import { latestMeasurement } from '@/lib/bodyMeasurements';
+import { PREFERRED_WORKOUT_TIMES, Profile } from '@/lib/profile';
 
 export default function ProfilePage() {
   const { user, supabase } = useAuth();
@@ -35,15 +25,19 @@ export default function ProfilePage() {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [phone, setPhone] = useState('');
   const [height, setHeight] = useState<string>('');
-  const [weight, setWeight] = useState<string>('');
   const [dateOfBirth, setDateOfBirth] = useState<string>('');
-  const [workoutTimeOptions] = useState([
-    { value: 'morning', label: 'Mañana' },
-    { value: 'afternoon', label: 'Tarde' },
-    { value: 'evening', label: 'Noche' },
-    { value: 'night', label: 'Madrugada' },
-  ]);
+  const [workoutTimeOptions] = useState(
+    Object.entries(PREFERRED_WORKOUT_TIMES).map(([value, label]) => ({ value, label }))
+  );
   const [selectedWorkoutTimes, setSelectedWorkoutTimes] = useState<string[]>([]);
+  const {
+    measurements,
+    loading: measurementsLoading,
+    addMeasurement,
+    removeMeasurement
+  } = useBodyMeasurements();
+  // Weight comes from the measurement history, the profile column mirrors it
+  const currentWeight = measurements.length > 0 ? latestMeasurement(measurements, 'weight') : profile?.weight ?? null;
 
   // Fetch user profile
   useEffect(() => {
@@ -85,7 +79,6 @@ export default function ProfilePage() {
         
         // Set new profile fields if they exist
         if (data.height) setHeight(data.height.toString());
-        if (data.weight) setWeight(data.weight.toString());
         if (data.date_of_birth) setDateOfBirth(data.date_of_birth);
         if (data.preferred_workout_time) setSelectedWorkoutTimes(data.preferred_workout_time);
         
@@ -168,7 +161,6 @@ export default function ProfilePage() {
       
       // Validate input values
       const heightValue = height ? parseFloat(height) : null;
-      const weightValue = weight ? parseFloat(weight) : null;
       
       // Try using upsert instead of update (similar to what we did in AuthContext)
       const profileData = {
@@ -179,7 +171,6 @@ export default function ProfilePage() {
         email: profile?.email || user.email,
         // Add new profile fields
         height: heightValue,
-        weight: weightValue,
         date_of_birth: dateOfBirth || null,
         preferred_workout_time: selectedWorkoutTimes.length > 0 ? selectedWorkoutTimes : null
       };
@@ -373,19 +364,13 @@ export default function ProfilePage() {
                 </div>
                 
                 <div>
-                  <label htmlFor="weight" className="block text-sm font-medium text-gray-400 mb-2">
+                  <p className="block text-sm font-medium text-gray-400 mb-2">
                     Peso (kg)
-                  </label>
-                  <input
-                    type="number"
-                    id="weight"
-                    value={weight}
-                    onChange={(e) => setWeight(e.target.value)}
-                    className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
-                    placeholder="Peso en kilogramos"
-                    min="0"
-                    step="0.1"
-                  />
+                  </p>
+                  <p className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white">
+                    {currentWeight !== null ? `${currentWeight} kg` : 'Sin registrar'}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">Se toma de tu última medición corporal</p>
                 </div>
                 
                 <div>
@@ -446,6 +431,17 @@ export default function ProfilePage() {
               </div>
             </div>
           </div>
+
+          <BodyMeasurements
+            measurements={measurements}
+            loading={measurementsLoading}
+            onAdd={addMeasurement}
+            onRemove={removeMeasurement}
+          />
+
+          <ProgressPhotos />
+
+          <CalendarFeedSettings />
         </div>
       </main>
     </>
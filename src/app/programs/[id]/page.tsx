@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Link from 'next/link';
+import Header from "@/components/Header";
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/useRole';
+import { orderProgram, PROGRAM_NESTED_SELECT } from '@/hooks/usePrograms';
+import AssignProgramModal from '@/components/AssignProgramModal';
+import {
+  DAY_NUMBERS,
+  DAYS_OF_WEEK,
+  findProgramDay,
+  formatProgression,
+  Program,
+  ProgramPosition,
+  programPosition,
+  UserProgram
+} from '@/lib/programs';
+
+export default function ProgramDetailsPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const params = useParams();
+  const programId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [program, setProgram] = useState<Program | null>(null);
+  const [assignment, setAssignment] = useState<UserProgram | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+
+  const refreshProgram = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    const fetchProgram = async () => {
+      if (!programId || !user) return;
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('programs')
+          .select(PROGRAM_NESTED_SELECT)
+          .eq('id', programId)
+          .single();
+
+        if (error) throw new Error(`Error al cargar el programa: ${error.message}`);
+
+        // The current user's own assignment, to highlight where they are
+        const { data: assignmentData } = await supabase
+          .from('user_programs')
+          .select('*')
+          .eq('program_id', programId)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        setProgram(orderProgram(data));
+        setAssignment(assignmentData);
+      } catch (err) {
+        console.error('Error fetching program:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar el programa');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProgram();
+  }, [programId, user, refreshTrigger]);
+
+  const handleDelete = async () => {
+    if (!program || !window.confirm(`¿Estás seguro de que quieres eliminar "${program.name}"?`)) return;
+
+    try {
+      setIsDeleting(true);
+      const supabase = createClientComponentClient();
+      const { error } = await supabase.from('programs').delete().eq('id', program.id);
+
+      if (error) throw new Error(`Error al eliminar el programa: ${error.message}`);
+
+      router.push('/programs');
+    } catch (err) {
+      console.error('Error deleting program:', err);
+      alert(err instanceof Error ? err.message : 'Error al eliminar el programa');
+      setIsDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error || !program) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error || 'Programa no encontrado'}</div>
+        </div>
+      </>
+    );
+  }
+
+  const isOwner = user?.id === program.created_by;
+  const position: ProgramPosition | null = assignment ? programPosition(assignment.start_date, program.weeks) : null;
+  const progression = formatProgression(program);
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex items-center">
+            <button
+              onClick={() => router.push('/programs')}
+              className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+              aria-label="Back to programs"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <h1 className="text-3xl font-bold text-white">{program.name}</h1>
+            {isOwner && (
+              <div className="ml-auto flex items-center gap-3">
+                {can('assign_program') && (
+                  <button
+                    onClick={() => setIsAssignModalOpen(true)}
+                    className="inline-flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors cursor-pointer"
+                  >
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+                    </svg>
+                    Asignar
+                  </button>
+                )}
+                <button
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                  className="inline-flex items-center px-4 py-2 text-red-500 hover:text-red-400 rounded-lg font-medium transition-colors cursor-pointer"
+                >
+                  {isDeleting ? 'Eliminando...' : 'Eliminar'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="mb-6 bg-gray-900 p-4 rounded-lg">
+            {program.description && <p className="text-gray-300 mb-2">{program.description}</p>}
+            <p className="text-gray-400">
+              {program.weeks} {program.weeks === 1 ? 'semana' : 'semanas'} · {program.program_days?.length || 0} sesiones
+            </p>
+            {progression && <p className="text-green-400">Progresión: {progression}</p>}
+            {position && <p className="text-blue-400">Estás en la semana {position.week}</p>}
+          </div>
+
+          <div className="bg-gray-900 rounded-lg p-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2 pr-3 font-medium">Semana</th>
+                  {DAY_NUMBERS.map(day => (
+                    <th key={day} className="py-2 pr-3 font-medium">{DAYS_OF_WEEK[day]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {Array.from({ length: program.weeks }, (_, index) => index + 1).map(week => (
+                  <tr key={week} className={position?.week === week ? 'bg-blue-900/10' : ''}>
+                    <td className="py-3 pr-3 text-white">{week}</td>
+                    {DAY_NUMBERS.map(day => {
+                      const programDay = findProgramDay(program, { week, day_of_week: day });
+                      const isToday = position?.week === week && position.day_of_week === day;
+
+                      return (
+                        <td key={day} className="py-3 pr-3">
+                          {programDay?.workout ? (
+                            <Link
+                              href={`/workouts/${programDay.workout_id}`}
+                              className={`block px-2 py-1.5 rounded-md text-white transition-colors ${isToday ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-800 hover:bg-gray-700'}`}
+                            >
+                              {programDay.workout.name}
+                            </Link>
+                          ) : (
+                            <span className={`block px-2 py-1.5 ${isToday ? 'text-blue-400' : 'text-gray-600'}`}>Descanso</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </main>
+
+      {isAssignModalOpen && (
+        <AssignProgramModal
+          program={program}
+          isOpen={isAssignModalOpen}
+          onClose={() => setIsAssignModalOpen(false)}
+          onAssigned={refreshProgram}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from "@/components/Header";
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkouts } from '@/hooks/useWorkouts';
+import { usePermissions } from '@/hooks/useRole';
+import { DAY_NUMBERS, DAYS_OF_WEEK, DayOfWeek } from '@/lib/programs';
+
+// Workout chosen for each `${week}-${day}` slot of the grid
+type ProgramGrid = Record<string, number>;
+
+const slotKey = (week: number, day: DayOfWeek) => `${week}-${day}`;
+
+export default function CreateProgramPage() {
+  const router = useRouter();
+  const { user, supabase } = useAuth();
+  const { workouts, loading } = useWorkouts();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [weeks, setWeeks] = useState(4);
+  const [loadIncrement, setLoadIncrement] = useState('');
+  const [repsIncrement, setRepsIncrement] = useState('');
+  const [grid, setGrid] = useState<ProgramGrid>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Programs are built from the trainer's own workouts
+  const ownWorkouts = workouts.filter(workout => !workout.isAssigned);
+
+  // Redirect users who can't build programs to home page
+  useEffect(() => {
+    if (!permissionsLoading && user && !can('create_program')) {
+      router.push('/');
+    }
+  }, [permissionsLoading, user, can, router]);
+
+  const handleWeeksChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value);
+    if (!isNaN(value) && value >= 1 && value <= 52) {
+      setWeeks(value);
+    }
+  };
+
+  const handleSlotChange = (week: number, day: DayOfWeek, workoutId: number) => {
+    setGrid(prev => {
+      const next = { ...prev };
+      if (workoutId) next[slotKey(week, day)] = workoutId;
+      else delete next[slotKey(week, day)];
+      return next;
+    });
+  };
+
+  // Repeat the first week's layout on every other week
+  const handleRepeatFirstWeek = () => {
+    const next: ProgramGrid = {};
+    for (let week = 1; week <= weeks; week++) {
+      DAY_NUMBERS.forEach(day => {
+        const workoutId = grid[slotKey(1, day)];
+        if (workoutId) next[slotKey(week, day)] = workoutId;
+      });
+    }
+    setGrid(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const days = Object.entries(grid)
+      .map(([key, workoutId]) => {
+        const [week, day] = key.split('-').map(Number);
+        return { week, day_of_week: day, workout_id: workoutId };
+      })
+      .filter(day => day.week <= weeks);
+
+    if (!name.trim()) {
+      alert('Por favor, ingresa un nombre para el programa');
+      return;
+    }
+
+    if (days.length === 0) {
+      alert('Por favor, asigna al menos una rutina a un día del programa');
+      return;
+    }
+
+    const weeklyLoad = loadIncrement ? parseFloat(loadIncrement) : null;
+    const weeklyReps = repsIncrement ? parseInt(repsIncrement) : null;
+
+    try {
+      setIsSubmitting(true);
+
+      const { data: program, error: programError } = await supabase
+        .from('programs')
+        .insert({
+          name: name.trim(),
+          description: description.trim() || null,
+          weeks,
+          weekly_load_increment_kg: weeklyLoad || null,
+          weekly_reps_increment: weeklyReps || null,
+          created_by: user.id
+        })
+        .select('id')
+        .single();
+
+      if (programError) throw new Error(`Error al crear el programa: ${programError.message}`);
+
+      const { error: daysError } = await supabase
+        .from('program_days')
+        .insert(days.map(day => ({ ...day, program_id: program.id })));
+
+      if (daysError) {
+        // Don't leave an empty program behind
+        await supabase.from('programs').delete().eq('id', program.id);
+        throw new Error(`Error al guardar los días del programa: ${daysError.message}`);
+      }
+
+      router.push(`/programs/${program.id}`);
+    } catch (err) {
+      console.error('Error creating program:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex items-center">
+            <button
+              onClick={() => router.push('/programs')}
+              className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+              aria-label="Back to programs"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <h1 className="text-3xl font-bold text-white">Crear Programa</h1>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-8">
+            <div className="bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800 grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="md:col-span-3">
+                <label htmlFor="program-name" className="block text-sm font-medium text-gray-300 mb-2">
+                  Nombre del Programa
+                </label>
+                <input
+                  type="text"
+                  id="program-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Ej. Fuerza - Bloque de acumulación"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="program-weeks" className="block text-sm font-medium text-gray-300 mb-2">
+                  Semanas
+                </label>
+                <input
+                  type="number"
+                  id="program-weeks"
+                  value={weeks}
+                  onChange={handleWeeksChange}
+                  min="1"
+                  max="52"
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="program-description" className="block text-sm font-medium text-gray-300 mb-2">
+                  Descripción
+                </label>
+                <textarea
+                  id="program-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={2}
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="program-load-increment" className="block text-sm font-medium text-gray-300 mb-2">
+                  Progresión de carga (kg / semana)
+                </label>
+                <input
+                  type="number"
+                  id="program-load-increment"
+                  value={loadIncrement}
+                  onChange={(e) => setLoadIncrement(e.target.value)}
+                  step="0.5"
+                  placeholder="Ej. 2.5"
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="program-reps-increment" className="block text-sm font-medium text-gray-300 mb-2">
+                  Progresión de reps (reps / semana)
+                </label>
+                <input
+                  type="number"
+                  id="program-reps-increment"
+                  value={repsIncrement}
+                  onChange={(e) => setRepsIncrement(e.target.value)}
+                  step="1"
+                  placeholder="Ej. 1"
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold text-white">Calendario del Programa</h2>
+                {weeks > 1 && (
+                  <button
+                    type="button"
+                    onClick={handleRepeatFirstWeek}
+                    className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm font-medium transition-colors cursor-pointer"
+                  >
+                    Repetir semana 1 en todas
+                  </button>
+                )}
+              </div>
+
+              {ownWorkouts.length === 0 ? (
+                <p className="text-gray-400">
+                  Necesitas al menos una rutina propia para armar un programa.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="py-2 pr-3 font-medium">Semana</th>
+                        {DAY_NUMBERS.map(day => (
+                          <th key={day} className="py-2 pr-3 font-medium">{DAYS_OF_WEEK[day]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-800">
+                      {Array.from({ length: weeks }, (_, index) => index + 1).map(week => (
+                        <tr key={week}>
+                          <td className="py-2 pr-3 text-white">{week}</td>
+                          {DAY_NUMBERS.map(day => (
+                            <td key={day} className="py-2 pr-3">
+                              <select
+                                value={grid[slotKey(week, day)] || 0}
+                                onChange={(e) => handleSlotChange(week, day, parseInt(e.target.value))}
+                                className="w-full min-w-[8rem] px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                aria-label={`Semana ${week}, ${DAYS_OF_WEEK[day]}`}
+                              >
+                                <option value={0}>Descanso</option>
+                                {ownWorkouts.map(workout => (
+                                  <option key={workout.id} value={workout.id}>{workout.name}</option>
+                                ))}
+                              </select>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => router.push('/programs')}
+                className="px-5 py-3 text-gray-300 hover:text-white mr-3 cursor-pointer"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-md transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {isSubmitting ? 'Guardando...' : 'Guardar Programa'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </main>
+    </>
+  );
+}
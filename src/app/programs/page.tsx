@@ -0,0 +1,144 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from "@/components/Header";
+import { usePrograms } from '@/hooks/usePrograms';
+import { usePermissions } from '@/hooks/useRole';
+import { formatProgression, parseDateOnly, programPosition } from '@/lib/programs';
+
+export default function ProgramsPage() {
+  const router = useRouter();
+  const { programs, assignments, loading, error } = usePrograms();
+  const { can } = usePermissions();
+  const canCreatePrograms = can('create_program');
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error}</div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/')}
+                className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+                aria-label="Back to home"
+              >
+                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-white">Programas</h1>
+                <p className="text-gray-400 mt-2">
+                  Planifica mesociclos de varias semanas a partir de tus rutinas
+                </p>
+              </div>
+            </div>
+            {canCreatePrograms && (
+              <Link
+                href="/programs/create"
+                className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Crear Programa
+              </Link>
+            )}
+          </div>
+
+          {assignments.length > 0 && (
+            <section className="mb-10">
+              <h2 className="text-2xl font-semibold text-white mb-4">Asignados a mí</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {assignments.map(assignment => {
+                  if (!assignment.program) return null;
+                  const position = programPosition(assignment.start_date, assignment.program.weeks);
+
+                  return (
+                    <Link
+                      key={assignment.id}
+                      href={`/programs/${assignment.program_id}`}
+                      className="block border border-gray-700 bg-gray-900 rounded-lg p-6 hover:border-blue-600 transition-colors"
+                    >
+                      <h3 className="text-xl font-semibold text-white mb-2">{assignment.program.name}</h3>
+                      <p className="text-sm text-gray-400">
+                        Inicio: {parseDateOnly(assignment.start_date).toLocaleDateString()}
+                      </p>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {position
+                          ? `Semana ${position.week} de ${assignment.program.weeks}`
+                          : parseDateOnly(assignment.start_date) > new Date() ? 'Aún no ha comenzado' : 'Finalizado'}
+                      </p>
+                    </Link>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
+          {canCreatePrograms && (
+            <section>
+              <h2 className="text-2xl font-semibold text-white mb-4">Mis programas</h2>
+              {programs.length === 0 ? (
+                <div className="bg-gray-900 rounded-lg p-8 text-center">
+                  <p className="text-gray-400 text-lg">Todavía no has creado ningún programa.</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {programs.map(program => (
+                    <Link
+                      key={program.id}
+                      href={`/programs/${program.id}`}
+                      className="block border border-gray-700 bg-gray-900 rounded-lg p-6 hover:border-blue-600 transition-colors"
+                    >
+                      <h3 className="text-xl font-semibold text-white mb-2">{program.name}</h3>
+                      <p className="text-sm text-gray-400">
+                        {program.weeks} {program.weeks === 1 ? 'semana' : 'semanas'} · {program.program_days?.length || 0} sesiones
+                      </p>
+                      {formatProgression(program) && (
+                        <p className="text-sm text-green-400 mt-1">{formatProgression(program)}</p>
+                      )}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
+          {!canCreatePrograms && assignments.length === 0 && (
+            <div className="bg-gray-900 rounded-lg p-8 text-center">
+              <p className="text-gray-400 text-lg">
+                No tienes programas asignados. Contacta a un entrenador para obtener un programa personalizado.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Header from "@/components/Header";
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import WorkoutBuilder from '@/components/WorkoutBuilder';
+import { WORKOUT_NESTED_SELECT } from '@/hooks/useWorkouts';
+import { useAuth } from '@/contexts/AuthContext';
+import { diffWorkout, isEmptyDiff, toWorkoutUpdatePayload } from '@/lib/workoutDiff';
+import { DraftWorkout, toDraftWorkout } from '@/lib/workoutRows';
+
+export default function EditWorkoutPage() {
+  const router = useRouter();
+  const params = useParams();
+  const workoutId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const { user } = useAuth();
+
+  const [original, setOriginal] = useState<DraftWorkout | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the saved workout in draft form, the baseline edits are diffed against
+  const fetchOriginal = useCallback(async () => {
+    const supabase = createClientComponentClient();
+    const { data, error } = await supabase
+      .from('workouts')
+      .select(WORKOUT_NESTED_SELECT)
+      .eq('id', workoutId)
+      .single();
+
+    if (error) throw new Error(`Failed to fetch workout: ${error.message}`);
+
+    if (data.created_by !== user?.id) {
+      throw new Error('No tienes permiso para editar esta rutina');
+    }
+
+    return toDraftWorkout(data);
+  }, [workoutId, user]);
+
+  useEffect(() => {
+    const fetchWorkout = async () => {
+      if (!workoutId || !user) return;
+
+      try {
+        setLoading(true);
+        setOriginal(await fetchOriginal());
+      } catch (err) {
+        console.error('Error fetching workout:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar la rutina');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWorkout();
+  }, [workoutId, user, fetchOriginal]);
+
+  const handleBackClick = () => {
+    router.push(`/workouts/${workoutId}`);
+  };
+
+  // Write only what changed so existing blocks and instances keep their ids
+  const handleSave = async (edited: DraftWorkout) => {
+    if (!user || !original) return;
+
+    const diff = diffWorkout(original, edited);
+
+    if (isEmptyDiff(diff)) {
+      router.push(`/workouts/${workoutId}`);
+      return;
+    }
+
+    // update_workout() applies the whole diff in one transaction
+    const supabase = createClientComponentClient();
+    const { error } = await supabase.rpc('update_workout', {
+      payload: toWorkoutUpdatePayload(original.id!, diff)
+    });
+
+    if (error) {
+      // Diff the retry against what is actually saved
+      fetchOriginal().then(setOriginal).catch(err => console.error('Error reloading workout:', err));
+      throw new Error(`Error al guardar la rutina: ${error.message}`);
+    }
+
+    router.push(`/workouts/${workoutId}`);
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error || !original) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error || 'Workout not found'}</div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <WorkoutBuilder
+      title="Editar Rutina"
+      initialWorkout={original}
+      onSubmit={handleSave}
+      onCancel={handleBackClick}
+    />
+  );
+}
@@ -3,13 +3,24 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Image from 'next/image';
+import Link from 'next/link';
 import Header from "@/components/Header";
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
-import { Workout, Block, ExerciseInstance } from '@/hooks/useWorkouts';
+import { Workout, Block, WORKOUT_NESTED_SELECT, orderWorkout } from '@/hooks/useWorkouts';
 import VideoModal from '@/components/VideoModal';
+import SessionHistory from '@/components/SessionHistory';
+import { useWorkoutSessions } from '@/hooks/useWorkoutSessions';
+import AssignWorkoutModal from '@/components/AssignWorkoutModal';
+import WorkoutSummaryStats from '@/components/WorkoutSummaryStats';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatLoad } from '@/lib/loadPrescription';
+import { formatPrescription } from '@/lib/setPrescription';
+import { formatBlockType, getBlockSettings, restAfterInstance, restsBetweenRounds } from '@/lib/blockTypes';
+import { forRound, hasRoundOverrides } from '@/lib/setVariation';
 
 export default function WorkoutDetailsPage() {
   const router = useRouter();
+  const { user } = useAuth();
   const params = useParams();
   const workoutId = Array.isArray(params.id) ? params.id[0] : params.id;
   
@@ -21,6 +32,8 @@ export default function WorkoutDetailsPage() {
   const [currentVideo, setCurrentVideo] = useState<string | null>(null);
   const [currentExerciseName, setCurrentExerciseName] = useState<string>('');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { sessions, loading: sessionsLoading } = useWorkoutSessions(workoutId);
+  const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
 
   // Function to manually refresh workout data
   const refreshWorkout = useCallback(() => {
@@ -36,22 +49,13 @@ export default function WorkoutDetailsPage() {
         const supabase = createClientComponentClient();
         const { data, error } = await supabase
           .from('workouts')
-          .select(`
-            *,
-            blocks (
-              *,
-              exercise_instances (
-                *,
-                exercise:exercises (*)
-              )
-            )
-          `)
+          .select(WORKOUT_NESTED_SELECT)
           .eq('id', workoutId)
           .single();
         
         if (error) throw new Error(`Failed to fetch workout: ${error.message}`);
         
-        setWorkout(data);
+        setWorkout(orderWorkout(data));
         
         // Initialize expanded state
         if (data.blocks) {
@@ -83,6 +87,26 @@ export default function WorkoutDetailsPage() {
     }));
   };
 
+  // Add the workout to the owner's template library, or take it out
+  const handleToggleTemplate = async () => {
+    if (!workout) return;
+
+    try {
+      const supabase = createClientComponentClient();
+      const { error } = await supabase
+        .from('workouts')
+        .update({ is_template: !workout.is_template })
+        .eq('id', workout.id);
+
+      if (error) throw new Error(`Error al actualizar la plantilla: ${error.message}`);
+
+      refreshWorkout();
+    } catch (err) {
+      console.error('Error toggling template:', err);
+      alert(err instanceof Error ? err.message : 'Error al actualizar la plantilla');
+    }
+  };
+
   const handleExerciseClick = (exercise: any) => {
     if (exercise?.video) {
       setCurrentVideo(exercise.video);
@@ -129,6 +153,52 @@ export default function WorkoutDetailsPage() {
               </svg>
             </button>
             <h1 className="text-3xl font-bold text-white">{workout.name}</h1>
+            <div className="ml-auto flex items-center gap-3">
+              {user && workout.created_by === user.id && (
+                <Link
+                  href={`/workouts/${workout.id}/edit`}
+                  className="inline-flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                  </svg>
+                  Editar
+                </Link>
+              )}
+              {user && workout.created_by === user.id && (
+                <button
+                  onClick={handleToggleTemplate}
+                  className={`inline-flex items-center px-4 py-2 rounded-lg text-white font-medium transition-colors cursor-pointer ${workout.is_template ? 'bg-purple-800 hover:bg-purple-700' : 'bg-gray-800 hover:bg-gray-700'}`}
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                  {workout.is_template ? 'Quitar de Plantillas' : 'Marcar como Plantilla'}
+                </button>
+              )}
+              {user && workout.created_by === user.id && (
+                <button
+                  onClick={() => setIsAssignModalOpen(true)}
+                  className="inline-flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors cursor-pointer"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+                  </svg>
+                  Asignar
+                </button>
+              )}
+              {workout.blocks && workout.blocks.length > 0 && (
+                <Link
+                  href={`/workouts/${workout.id}/play`}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                  Comenzar Rutina
+                </Link>
+              )}
+            </div>
           </div>
           
           <div className="mb-6 bg-gray-900 p-4 rounded-lg">
@@ -138,6 +208,15 @@ export default function WorkoutDetailsPage() {
             <p className="text-gray-400">
               Bloques: {workout.blocks?.length || 0}
             </p>
+            {workout.source_template_id && (
+              <p className="text-gray-400">
+                Creada desde{' '}
+                <Link href={`/workouts/${workout.source_template_id}`} className="text-blue-400 hover:text-blue-300 underline">
+                  una plantilla
+                </Link>
+              </p>
+            )}
+            <WorkoutSummaryStats workout={workout} className="mt-2" />
           </div>
           
           {workout.blocks && workout.blocks.length > 0 ? (
@@ -156,6 +235,9 @@ export default function WorkoutDetailsPage() {
                       <span className="ml-3 bg-blue-900 text-blue-200 text-xs px-2 py-1 rounded-full">
                         {block.rounds} {block.rounds === 1 ? 'ronda' : 'rondas'}
                       </span>
+                      <span className="ml-2 bg-gray-700 text-gray-200 text-xs px-2 py-1 rounded-full">
+                        {formatBlockType(block)}
+                      </span>
                     </div>
                     <svg 
                       className={`w-5 h-5 text-gray-400 transform transition-transform ${expandedBlocks[block.id] ? 'rotate-180' : ''}`} 
@@ -169,8 +251,8 @@ export default function WorkoutDetailsPage() {
                   </button>
                   
                   {expandedBlocks[block.id] && block.exercise_instances && block.exercise_instances.length > 0 && (
-                    <div className="p-4 border-t border-gray-800 divide-y divide-gray-800">
-                      {block.exercise_instances.map(instance => (
+                    <div className={`p-4 border-t border-gray-800 divide-y divide-gray-800 ${restsBetweenRounds(getBlockSettings(block).block_type) ? 'border-l-4 border-l-blue-800' : ''}`}>
+                      {block.exercise_instances.map((instance, instanceIndex, instances) => (
                         <div 
                           key={instance.id} 
                           className="py-3 cursor-pointer hover:bg-gray-800 rounded p-2 transition-colors"
@@ -198,23 +280,44 @@ export default function WorkoutDetailsPage() {
                                   <svg className="w-3.5 h-3.5 mr-1 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                                   </svg>
-                                  {instance.reps} reps
+                                  {formatPrescription(instance)}
                                 </span>
-                                <span className="inline-flex items-center bg-gray-700 px-2 py-0.5 rounded-full">
-                                  <svg className="w-3.5 h-3.5 mr-1 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                  </svg>
-                                  {instance.rest}s descanso
-                                </span>
-                                {instance.weight && (
+                                {restAfterInstance(block, instanceIndex) > 0 && (
+                                  <span className="inline-flex items-center bg-gray-700 px-2 py-0.5 rounded-full">
+                                    <svg className="w-3.5 h-3.5 mr-1 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    </svg>
+                                    {restAfterInstance(block, instanceIndex)}s descanso{restsBetweenRounds(getBlockSettings(block).block_type) || (block.round_rest_seconds != null && instanceIndex === instances.length - 1) ? ' entre rondas' : ''}
+                                  </span>
+                                )}
+                                {formatLoad(instance.load) && (
                                   <span className="inline-flex items-center bg-gray-700 px-2 py-0.5 rounded-full">
                                     <svg className="w-3.5 h-3.5 mr-1 text-purple-400" fill="currentColor" stroke="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                                       <path d="M20.57 14.86L22 13.43 20.57 12 17 15.57 8.43 7 12 3.43 10.57 2 9.14 3.43 7.71 2 5.57 4.14 4.14 2.71 2.71 4.14 4.14 5.57 2 7.71 3.43 9.14 2 10.57 3.43 12 7 8.43 15.57 17 12 20.57 13.43 22 14.86 20.57 16.29 22 17.71 20.57 19.14 18.43 16.29 19.86 19.86 18.43 22 16.29 20.57z" />
                                     </svg>
-                                    {instance.weight}
+                                    {formatLoad(instance.load)}
+                                  </span>
+                                )}
+                                {instance.tempo && (
+                                  <span className="inline-flex items-center bg-gray-700 px-2 py-0.5 rounded-full">
+                                    Tempo {instance.tempo}
                                   </span>
                                 )}
                               </div>
+                              {block.rounds > 1 && hasRoundOverrides(instance) && (
+                                <ol className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+                                  {Array.from({ length: block.rounds }, (_, roundIndex) => {
+                                    const roundInstance = forRound(instance, roundIndex + 1);
+                                    const roundLoad = formatLoad(roundInstance.load);
+                                    return (
+                                      <li key={roundIndex}>
+                                        <span className="text-gray-500">R{roundIndex + 1}:</span>{' '}
+                                        {formatPrescription(roundInstance)}{roundLoad ? ` · ${roundLoad}` : ''}
+                                      </li>
+                                    );
+                                  })}
+                                </ol>
+                              )}
                             </div>
                             {instance.exercise?.video && (
                               <svg className="w-5 h-5 text-blue-500 ml-auto" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
@@ -235,6 +338,17 @@ export default function WorkoutDetailsPage() {
               <p className="text-gray-400 text-lg">Esta rutina no tiene bloques.</p>
             </div>
           )}
+
+          <div className="mt-10">
+            <h2 className="text-2xl font-semibold text-white mb-4">Historial de Sesiones</h2>
+            {sessionsLoading ? (
+              <div className="flex justify-center p-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+              </div>
+            ) : (
+              <SessionHistory workout={workout} sessions={sessions} />
+            )}
+          </div>
         </div>
       </main>
       
@@ -246,6 +360,14 @@ export default function WorkoutDetailsPage() {
           title={`${currentExerciseName} - Video`}
         />
       )}
+
+      {isAssignModalOpen && (
+        <AssignWorkoutModal
+          workout={workout}
+          isOpen={isAssignModalOpen}
+          onClose={() => setIsAssignModalOpen(false)}
+        />
+      )}
     </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,588 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { Workout, WORKOUT_NESTED_SELECT, orderWorkout } from '@/hooks/useWorkouts';
+import VideoModal from '@/components/VideoModal';
+import { useSessionLogging, WorkoutSession, SetLog } from '@/hooks/useWorkoutSessions';
+import { useOneRepMaxFormula } from '@/hooks/useOneRepMaxFormula';
+import { buildSessionSteps, enterStep, findNextExerciseStep, SessionStep, stepSeconds } from '@/lib/sessionSteps';
+import { formatLoad, prescribedKg } from '@/lib/loadPrescription';
+import { formatPrescription, targetReps } from '@/lib/setPrescription';
+import { formatBlockType } from '@/lib/blockTypes';
+import { applyProgression } from '@/lib/programs';
+import { findNewRecords, formatRecord, NewRecord, RECORD_KINDS } from '@/lib/personalRecords';
+
+interface SetForm {
+  reps: string;
+  weight: string;
+  rpe: string;
+  notes: string;
+}
+
+const logKey = (instanceId: number, round: number) => `${instanceId}-${round}`;
+
+// Format a number of seconds as m:ss
+const formatClock = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Prefill the set form from an existing log, or from the prescription and the last load used
+const buildSetForm = (step: SessionStep | undefined, logs: Record<string, SetLog>): SetForm => {
+  if (!step || step.kind !== 'exercise') {
+    return { reps: '', weight: '', rpe: '', notes: '' };
+  }
+
+  const existing = logs[logKey(step.instance.id, step.round)];
+  if (existing) {
+    return {
+      reps: existing.reps?.toString() ?? '',
+      weight: existing.weight?.toString() ?? '',
+      rpe: existing.rpe?.toString() ?? '',
+      notes: existing.notes ?? ''
+    };
+  }
+
+  // A load set for this round (drop sets, pyramids) wins over the weight used last round
+  const previousRound = logs[logKey(step.instance.id, step.round - 1)];
+  const roundLoad = step.instance.round_overrides?.[step.round - 1]?.load;
+  return {
+    reps: targetReps(step.instance)?.toString() ?? '',
+    weight: (roundLoad ? prescribedKg(roundLoad) : previousRound?.weight ?? prescribedKg(step.instance.load))?.toString() ?? '',
+    rpe: '',
+    notes: ''
+  };
+};
+
+export default function PlayWorkoutPage() {
+  const router = useRouter();
+  const params = useParams();
+  const workoutId = Array.isArray(params.id) ? params.id[0] : params.id;
+  // Sessions started from a program carry the program week for progression
+  const searchParams = useSearchParams();
+  const programId = searchParams.get('program');
+  const programWeek = parseInt(searchParams.get('week') || '1') || 1;
+
+  const [workout, setWorkout] = useState<Workout | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isSetTimerRunning, setIsSetTimerRunning] = useState(false);
+  const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
+  const [session, setSession] = useState<WorkoutSession | null>(null);
+  const [logs, setLogs] = useState<Record<string, SetLog>>({});
+  const [setForm, setSetForm] = useState<SetForm>({ reps: '', weight: '', rpe: '', notes: '' });
+  const [sessionNotes, setSessionNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRecords, setNewRecords] = useState<{ exerciseId: number; name: string; records: NewRecord[] }[]>([]);
+  const { startSession, logSet, finishSession } = useSessionLogging();
+  const { formula } = useOneRepMaxFormula();
+
+  useEffect(() => {
+    const fetchWorkout = async () => {
+      if (!workoutId) return;
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('workouts')
+          .select(WORKOUT_NESTED_SELECT)
+          .eq('id', workoutId)
+          .single();
+
+        if (error) throw new Error(`Failed to fetch workout: ${error.message}`);
+
+        if (programId) {
+          const { data: program, error: programError } = await supabase
+            .from('programs')
+            .select('weekly_load_increment_kg, weekly_reps_increment')
+            .eq('id', programId)
+            .single();
+
+          if (programError) throw new Error(`Failed to fetch program: ${programError.message}`);
+
+          setWorkout(applyProgression(orderWorkout(data), program, programWeek));
+        } else {
+          setWorkout(orderWorkout(data));
+        }
+      } catch (err) {
+        console.error('Error fetching workout:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar la rutina');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWorkout();
+  }, [workoutId, programId, programWeek]);
+
+  const steps = useMemo(() => (workout ? buildSessionSteps(workout) : []), [workout]);
+  const currentStep = steps[stepIndex];
+  const nextExercise = findNextExerciseStep(steps, stepIndex);
+  const isFinished = steps.length > 0 && stepIndex >= steps.length;
+
+  // Once every step is done, compare the session's sets with the athlete's
+  // earlier logs of the same exercises to flag new personal records
+  useEffect(() => {
+    const detectRecords = async () => {
+      if (!isFinished || !session) return;
+
+      const sessionLogs = Object.values(logs);
+      const exerciseIds = [...new Set(sessionLogs.map(log => log.exercise_id).filter((id): id is number => id !== null))];
+      if (exerciseIds.length === 0) return;
+
+      try {
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('set_logs')
+          .select('id, session_id, exercise_id, reps, weight, completed_at, session:workout_sessions!inner (user_id)')
+          .in('exercise_id', exerciseIds)
+          .neq('session_id', session.id)
+          .eq('session.user_id', session.user_id);
+
+        if (error) throw new Error(`Failed to fetch previous sets: ${error.message}`);
+
+        const names = new Map(steps.flatMap(step =>
+          step.kind === 'exercise' ? [[step.instance.exercise_id, step.instance.exercise?.name || 'Ejercicio'] as const] : []
+        ));
+
+        setNewRecords(exerciseIds.flatMap(exerciseId => {
+          const records = findNewRecords(
+            (data || []).filter(log => log.exercise_id === exerciseId),
+            sessionLogs.filter(log => log.exercise_id === exerciseId),
+            formula
+          );
+          return records.length > 0 ? [{ exerciseId, name: names.get(exerciseId) || 'Ejercicio', records }] : [];
+        }));
+      } catch (err) {
+        console.error('Error detecting personal records:', err);
+      }
+    };
+
+    detectRecords();
+  }, [isFinished, session, logs, steps, formula]);
+
+  // Prefill the form for the first set once the workout is loaded
+  useEffect(() => {
+    setSetForm(buildSetForm(steps[0], {}));
+    setRemaining(stepSeconds(steps[0]));
+  }, [steps]);
+
+  // Move to a step, resetting the countdown for rests and timed sets
+  const goToStep = useCallback((index: number, stepLogs: Record<string, SetLog> = logs) => {
+    const timer = enterStep(steps, index);
+    setStepIndex(timer.stepIndex);
+    setRemaining(timer.remaining);
+    setIsSetTimerRunning(timer.isSetTimerRunning);
+    setSetForm(buildSetForm(steps[timer.stepIndex], stepLogs));
+    setIsVideoModalOpen(false);
+  }, [steps, logs]);
+
+  // Tick the countdown once per second while not paused. Rests start on their own,
+  // timed sets wait until the athlete starts them
+  useEffect(() => {
+    if (!currentStep || isPaused) return;
+    if (currentStep.kind !== 'rest' && !isSetTimerRunning) return;
+
+    const interval = setInterval(() => {
+      setRemaining(prev => Math.max(prev - 1, 0));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [currentStep, isPaused, isSetTimerRunning]);
+
+  // Stop a timed set when its time is up, the athlete still logs it
+  useEffect(() => {
+    if (isSetTimerRunning && remaining === 0) {
+      setIsSetTimerRunning(false);
+    }
+  }, [isSetTimerRunning, remaining]);
+
+  // Advance automatically when the rest is over
+  useEffect(() => {
+    if (currentStep?.kind === 'rest' && remaining === 0) {
+      goToStep(stepIndex + 1);
+    }
+  }, [currentStep, remaining, stepIndex, goToStep]);
+
+  const handleExit = () => {
+    router.push(`/workouts/${workoutId}`);
+  };
+
+  const handleSetFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSetForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Save what the athlete actually did for the current set, then move on
+  const handleLogSet = async () => {
+    if (!workout || currentStep?.kind !== 'exercise') return;
+
+    try {
+      setIsSaving(true);
+
+      // The session is only created once the first set is logged
+      let activeSession = session;
+      if (!activeSession) {
+        activeSession = await startSession(workout.id);
+        setSession(activeSession);
+      }
+
+      const reps = parseInt(setForm.reps);
+      const weight = parseFloat(setForm.weight);
+      const rpe = parseFloat(setForm.rpe);
+
+      const log = await logSet(activeSession.id, {
+        exercise_instance_id: currentStep.instance.id,
+        exercise_id: currentStep.instance.exercise_id,
+        round: currentStep.round,
+        reps: isNaN(reps) ? null : reps,
+        weight: isNaN(weight) ? null : weight,
+        rpe: isNaN(rpe) ? null : rpe,
+        notes: setForm.notes.trim() || null
+      });
+
+      const updatedLogs = { ...logs, [logKey(currentStep.instance.id, currentStep.round)]: log };
+      setLogs(updatedLogs);
+
+      goToStep(stepIndex + 1, updatedLogs);
+    } catch (err) {
+      console.error('Error logging set:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFinishSession = async () => {
+    try {
+      setIsSaving(true);
+      if (session) {
+        await finishSession(session.id, sessionNotes.trim());
+      }
+      handleExit();
+    } catch (err) {
+      console.error('Error finishing session:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 z-40 flex items-center justify-center bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !workout) {
+    return (
+      <div className="fixed inset-0 z-40 flex items-center justify-center bg-black">
+        <div className="text-red-500">Error: {error || 'Workout not found'}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-black text-white">
+      {/* Top bar */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <button
+          onClick={handleExit}
+          className="p-2 rounded-full hover:bg-gray-800 transition-colors cursor-pointer"
+          aria-label="Salir de la sesión"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold truncate mx-4">{workout.name}</h1>
+        <span className="text-sm text-gray-400 whitespace-nowrap">
+          {Math.min(stepIndex + 1, steps.length)} / {steps.length}
+        </span>
+      </div>
+
+      {/* Progress bar */}
+      <div className="h-1 bg-gray-800">
+        <div
+          className="h-1 bg-blue-500 transition-all"
+          style={{ width: `${steps.length > 0 ? (Math.min(stepIndex, steps.length) / steps.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      <main className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-6">
+        {steps.length === 0 ? (
+          <p className="text-gray-400 text-lg">Esta rutina no tiene ejercicios.</p>
+        ) : isFinished ? (
+          <div className="text-center">
+            <svg className="w-20 h-20 mx-auto mb-6 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <h2 className="text-4xl font-bold mb-4">¡Rutina completada!</h2>
+            <p className="text-gray-400 mb-8">
+              Buen trabajo. Has terminado todos los bloques
+              {session ? ` y registrado ${Object.keys(logs).length} ${Object.keys(logs).length === 1 ? 'serie' : 'series'}.` : '.'}
+            </p>
+            {newRecords.length > 0 && (
+              <div className="w-full max-w-md mx-auto mb-6 p-4 bg-yellow-900/20 border border-yellow-700 rounded-lg text-left">
+                <p className="text-yellow-400 font-semibold mb-2">¡Nuevos récords personales!</p>
+                <ul className="space-y-2">
+                  {newRecords.map(({ exerciseId, name, records }) => (
+                    <li key={exerciseId}>
+                      <Link href={`/exercises/${exerciseId}`} className="text-white font-medium hover:text-blue-400">{name}</Link>
+                      {records.map(record => (
+                        <p key={record.kind} className="text-sm text-gray-300">
+                          {RECORD_KINDS[record.kind]}: {formatRecord(record)}
+                          <span className="text-gray-500"> (antes {formatRecord({ ...record, value: record.previous })})</span>
+                        </p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {session && (
+              <textarea
+                value={sessionNotes}
+                onChange={(e) => setSessionNotes(e.target.value)}
+                rows={3}
+                className="w-full max-w-md mb-6 px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Notas de la sesión (opcional)"
+              ></textarea>
+            )}
+            <div>
+              <button
+                onClick={handleFinishSession}
+                disabled={isSaving}
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {session ? 'Finalizar sesión' : 'Volver a la rutina'}
+              </button>
+            </div>
+          </div>
+        ) : currentStep.kind === 'rest' ? (
+          <div className="text-center">
+            <p className="text-sm uppercase tracking-widest text-green-400 mb-4">Descanso</p>
+            <p className="text-8xl font-bold tabular-nums mb-4">{formatClock(remaining)}</p>
+            <p className="text-gray-400">
+              {currentStep.block.name} · Ronda {currentStep.round} de {currentStep.block.rounds}
+            </p>
+            {isPaused && <p className="mt-4 text-yellow-400">En pausa</p>}
+          </div>
+        ) : (
+          <div className="w-full max-w-xl text-center">
+            <p className="text-sm uppercase tracking-widest text-blue-400 mb-2">
+              {currentStep.block.name} · {formatBlockType(currentStep.block)} · Ronda {currentStep.round} de {currentStep.block.rounds}
+            </p>
+            <h2 className="text-4xl font-bold mb-6">
+              {currentStep.instance.exercise?.name || 'Unknown Exercise'}
+            </h2>
+            {currentStep.instance.exercise?.image && (
+              <div className="w-full h-64 relative rounded-lg overflow-hidden mb-6 border border-gray-800">
+                <Image
+                  src={currentStep.instance.exercise.image}
+                  alt={currentStep.instance.exercise.name}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+            )}
+            <div className="flex flex-wrap justify-center gap-3 mb-6">
+              <span className="inline-flex items-center bg-gray-800 px-4 py-2 rounded-full text-xl">
+                <svg className="w-5 h-5 mr-2 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                {formatPrescription(currentStep.instance)}
+              </span>
+              {formatLoad(currentStep.instance.load) && (
+                <span className="inline-flex items-center bg-gray-800 px-4 py-2 rounded-full text-xl">
+                  <svg className="w-5 h-5 mr-2 text-purple-400" fill="currentColor" stroke="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M20.57 14.86L22 13.43 20.57 12 17 15.57 8.43 7 12 3.43 10.57 2 9.14 3.43 7.71 2 5.57 4.14 4.14 2.71 2.71 4.14 4.14 5.57 2 7.71 3.43 9.14 2 10.57 3.43 12 7 8.43 15.57 17 12 20.57 13.43 22 14.86 20.57 16.29 22 17.71 20.57 19.14 18.43 16.29 19.86 19.86 18.43 22 16.29 20.57z" />
+                  </svg>
+                  {formatLoad(currentStep.instance.load)}
+                </span>
+              )}
+              {currentStep.instance.tempo && (
+                <span className="inline-flex items-center bg-gray-800 px-4 py-2 rounded-full text-xl">
+                  Tempo {currentStep.instance.tempo}
+                </span>
+              )}
+            </div>
+            {currentStep.instance.exercise?.video && (
+              <button
+                onClick={() => setIsVideoModalOpen(true)}
+                className="inline-flex items-center px-4 py-2 mb-6 text-blue-400 hover:text-blue-300 cursor-pointer"
+              >
+                <svg className="w-5 h-5 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M10 12a2 2 0 100-4 2 2 0 000 4z"></path>
+                  <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd"></path>
+                </svg>
+                Ver Video
+              </button>
+            )}
+            {stepSeconds(currentStep) > 0 && (
+              <div className="mb-6">
+                <p className={`text-7xl font-bold tabular-nums mb-3 ${remaining === 0 ? 'text-green-400' : ''}`}>
+                  {formatClock(remaining)}
+                </p>
+                {remaining === 0 ? (
+                  <p className="text-green-400 font-medium">¡Tiempo!</p>
+                ) : (
+                  <button
+                    onClick={() => setIsSetTimerRunning(prev => !prev)}
+                    className="px-6 py-2 bg-gray-800 hover:bg-gray-700 rounded-full font-medium transition-colors cursor-pointer"
+                  >
+                    {isSetTimerRunning ? 'Detener' : remaining === stepSeconds(currentStep) ? 'Iniciar' : 'Continuar'}
+                  </button>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 text-left">
+              <div>
+                <label htmlFor="set-reps" className="block text-xs font-medium text-gray-400 mb-1">Reps hechas</label>
+                <input
+                  type="number"
+                  id="set-reps"
+                  name="reps"
+                  value={setForm.reps}
+                  onChange={handleSetFormChange}
+                  min="0"
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="set-weight" className="block text-xs font-medium text-gray-400 mb-1">Carga (kg)</label>
+                <input
+                  type="number"
+                  id="set-weight"
+                  name="weight"
+                  value={setForm.weight}
+                  onChange={handleSetFormChange}
+                  min="0"
+                  step="0.5"
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="set-rpe" className="block text-xs font-medium text-gray-400 mb-1">RPE</label>
+                <input
+                  type="number"
+                  id="set-rpe"
+                  name="rpe"
+                  value={setForm.rpe}
+                  onChange={handleSetFormChange}
+                  min="1"
+                  max="10"
+                  step="0.5"
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="col-span-2 md:col-span-1">
+                <label htmlFor="set-notes" className="block text-xs font-medium text-gray-400 mb-1">Notas</label>
+                <input
+                  type="text"
+                  id="set-notes"
+                  name="notes"
+                  value={setForm.notes}
+                  onChange={handleSetFormChange}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div>
+              <button
+                onClick={handleLogSet}
+                disabled={isSaving}
+                className="w-full md:w-auto px-10 py-4 bg-blue-600 hover:bg-blue-700 rounded-lg text-xl font-semibold transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {isSaving ? 'Guardando...' : 'Serie completada'}
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+
+      {/* Next up preview */}
+      {!isFinished && nextExercise && (
+        <div className="px-6 py-4 border-t border-gray-800 flex items-center">
+          <span className="text-xs uppercase tracking-widest text-gray-500 mr-4">A continuación</span>
+          {nextExercise.instance.exercise?.image && (
+            <div className="w-10 h-10 relative rounded overflow-hidden mr-3 flex-shrink-0">
+              <Image
+                src={nextExercise.instance.exercise.image}
+                alt={nextExercise.instance.exercise.name}
+                fill
+                className="object-cover"
+              />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="font-medium truncate">{nextExercise.instance.exercise?.name || 'Unknown Exercise'}</p>
+            <p className="text-sm text-gray-400 truncate">
+              {formatPrescription(nextExercise.instance)} · {nextExercise.block.name} · Ronda {nextExercise.round}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Controls */}
+      {!isFinished && steps.length > 0 && (
+        <div className="p-4 border-t border-gray-800 flex items-center justify-center gap-6">
+          <button
+            onClick={() => goToStep(stepIndex - 1)}
+            disabled={stepIndex === 0}
+            className="p-3 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Paso anterior"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setIsPaused(prev => !prev)}
+            className="p-4 rounded-full bg-blue-600 hover:bg-blue-700 transition-colors cursor-pointer"
+            aria-label={isPaused ? 'Reanudar' : 'Pausar'}
+          >
+            {isPaused ? (
+              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path d="M8 5v14l11-7z" />
+              </svg>
+            ) : (
+              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+              </svg>
+            )}
+          </button>
+          <button
+            onClick={() => goToStep(stepIndex + 1)}
+            className="p-3 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors cursor-pointer"
+            aria-label="Saltar paso"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {isVideoModalOpen && currentStep?.kind === 'exercise' && currentStep.instance.exercise?.video && (
+        <VideoModal
+          videoUrl={currentStep.instance.exercise.video}
+          isOpen={isVideoModalOpen}
+          onClose={() => setIsVideoModalOpen(false)}
+          title={`${currentStep.instance.exercise.name} - Video`}
+        />
+      )}
+    </div>
+  );
+}
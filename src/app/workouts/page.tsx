@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import Header from "@/components/Header";
 import { useWorkouts, Workout } from '@/hooks/useWorkouts';
+import { usePermissions } from '@/hooks/useRole';
 import WorkoutCard from '@/components/WorkoutCard';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -11,6 +13,7 @@ export default function WorkoutsPage() {
   const router = useRouter();
   const { user } = useAuth();
   const { workouts: fetchedWorkouts, loading, error, refreshWorkouts } = useWorkouts();
+  const { can } = usePermissions();
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -81,6 +84,17 @@ export default function WorkoutsPage() {
                 </p>
               </div>
             </div>
+            {can('create_workout') && (
+              <Link
+                href="/workouts/templates"
+                className="inline-flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                </svg>
+                Plantillas
+              </Link>
+            )}
           </div>
           
           <div className="mb-6">
@@ -107,7 +121,7 @@ export default function WorkoutsPage() {
                   workout={workout} 
                   onDelete={handleWorkoutDelete}
                   refreshWorkouts={refreshWorkouts}
-                  isTrainer={false}
+                  can={can}
                 />
               ))}
             </div>
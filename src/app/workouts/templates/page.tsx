@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from "@/components/Header";
+import { useWorkouts } from '@/hooks/useWorkouts';
+import { usePermissions } from '@/hooks/useRole';
+import WorkoutCard from '@/components/WorkoutCard';
+
+export default function WorkoutTemplatesPage() {
+  const router = useRouter();
+  const { workouts, loading, error, refreshWorkouts } = useWorkouts();
+  const { can } = usePermissions();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Templates are the trainer's own workouts marked as such
+  const templates = workouts.filter(workout =>
+    workout.is_template &&
+    !workout.isAssigned &&
+    workout.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading && workouts.length === 0) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+
+  if (error) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error}</div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8 flex items-center">
+            <button
+              onClick={() => router.push('/workouts')}
+              className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors"
+              aria-label="Back to workouts"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Plantillas</h1>
+              <p className="text-gray-400 mt-2">
+                Empieza una rutina nueva a partir de una de tus plantillas
+              </p>
+            </div>
+          </div>
+
+          {!can('create_workout') ? (
+            <div className="bg-gray-900 rounded-lg p-8 text-center">
+              <p className="text-gray-400 text-lg">Solo los entrenadores pueden usar plantillas.</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6">
+                <input
+                  type="text"
+                  placeholder="Buscar plantillas..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full max-w-md px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {templates.length === 0 ? (
+                <div className="bg-gray-900 rounded-lg p-8 text-center">
+                  <p className="text-gray-400 text-lg">
+                    Todavía no tienes plantillas. Abre una de tus rutinas y márcala como plantilla para reutilizarla.
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {templates.map(workout => (
+                    <WorkoutCard
+                      key={workout.id}
+                      workout={workout}
+                      refreshWorkouts={refreshWorkouts}
+                      can={can}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { Workout } from "@/hooks/useWorkouts";
+import { useTrainerClients } from "@/hooks/useTrainerClients";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface AssignWorkoutModalProps {
+  workout: Workout;
+  isOpen: boolean;
+  onClose: () => void;
+  onAssigned?: () => void;
+}
+
+export default function AssignWorkoutModal({ workout, isOpen, onClose, onAssigned }: AssignWorkoutModalProps) {
+  const { user } = useAuth();
+  const { relationships, loading: clientsLoading } = useTrainerClients();
+  const [assignedUserIds, setAssignedUserIds] = useState<string[]>([]);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [loadingAssignments, setLoadingAssignments] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only clients with an accepted relationship can receive workouts
+  const acceptedClients = relationships.filter(rel => rel.status === 'accepted');
+
+  // Load the clients this workout is already assigned to
+  useEffect(() => {
+    async function fetchAssignments() {
+      if (!isOpen || !user) return;
+
+      try {
+        setLoadingAssignments(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('user_workouts')
+          .select('user_id')
+          .eq('workout_id', workout.id)
+          .eq('trainer_id', user.id);
+
+        if (error) throw new Error(`Error al obtener asignaciones: ${error.message}`);
+
+        const userIds = (data || []).map(row => row.user_id as string);
+        setAssignedUserIds(userIds);
+        setSelectedUserIds(userIds);
+      } catch (err) {
+        console.error('Error fetching assignments:', err);
+        alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+      } finally {
+        setLoadingAssignments(false);
+      }
+    }
+
+    fetchAssignments();
+  }, [isOpen, user, workout.id]);
+
+  const toggleClient = (userId: string) => {
+    setSelectedUserIds(prev => prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    try {
+      setIsSubmitting(true);
+      const supabase = createClientComponentClient();
+      const acceptedIds = acceptedClients.map(rel => rel.user_id);
+
+      const toAssign = selectedUserIds.filter(id => !assignedUserIds.includes(id) && acceptedIds.includes(id));
+      const toUnassign = assignedUserIds.filter(id => !selectedUserIds.includes(id));
+
+      if (toAssign.length > 0) {
+        const { error } = await supabase
+          .from('user_workouts')
+          .insert(toAssign.map(userId => ({
+            user_id: userId,
+            workout_id: workout.id,
+            trainer_id: user.id
+          })));
+
+        if (error) throw new Error(`Error al asignar la rutina: ${error.message}`);
+      }
+
+      if (toUnassign.length > 0) {
+        const { error } = await supabase
+          .from('user_workouts')
+          .delete()
+          .eq('workout_id', workout.id)
+          .eq('trainer_id', user.id)
+          .in('user_id', toUnassign);
+
+        if (error) throw new Error(`Error al desasignar la rutina: ${error.message}`);
+      }
+
+      if (onAssigned) onAssigned();
+      onClose();
+    } catch (err) {
+      console.error('Error saving assignments:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isLoading = clientsLoading || loadingAssignments;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 rounded-lg shadow-xl max-w-lg w-full mx-auto overflow-hidden">
+        <div className="flex justify-between items-center p-6 border-b border-gray-800">
+          <h3 className="text-xl font-medium text-white truncate">Asignar &ldquo;{workout.name}&rdquo;</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white cursor-pointer"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : acceptedClients.length === 0 ? (
+            <p className="text-gray-400 text-center">
+              No tienes clientes aceptados. Acepta solicitudes en la sección &ldquo;Clientes&rdquo; para poder asignarles rutinas.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto pr-2 styled-scrollbar">
+              {acceptedClients.map(rel => {
+                const clientName = rel.client?.name || rel.client?.email || 'Usuario Sin Nombre';
+                const isSelected = selectedUserIds.includes(rel.user_id);
+
+                return (
+                  <label
+                    key={rel.id}
+                    className={`flex items-center p-3 rounded-lg border cursor-pointer transition-colors ${
+                      isSelected ? 'border-blue-600 bg-blue-900/20' : 'border-gray-800 bg-gray-800 hover:border-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggleClient(rel.user_id)}
+                      className="w-4 h-4 mr-3 accent-blue-600"
+                    />
+                    <div className="w-8 h-8 rounded-full overflow-hidden border border-gray-700 bg-gray-800 flex-shrink-0 flex items-center justify-center mr-3">
+                      {rel.client?.image ? (
+                        <Image
+                          src={rel.client.image}
+                          alt={clientName}
+                          width={32}
+                          height={32}
+                          className="object-cover w-full h-full"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center bg-blue-900 text-white text-xs font-bold">
+                          {(clientName.charAt(0) || '?').toUpperCase()}
+                        </div>
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{clientName}</p>
+                      {assignedUserIds.includes(rel.user_id) && (
+                        <p className="text-xs text-gray-400">Ya asignada</p>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white mr-2 cursor-pointer"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md shadow-sm flex items-center cursor-pointer disabled:opacity-50"
+              disabled={isSubmitting || isLoading || acceptedClients.length === 0}
+            >
+              {isSubmitting ? 'Guardando...' : 'Guardar Asignaciones'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  BLOCK_TYPES,
+  BlockSettings,
+  BlockType,
+  defaultBlockSettings
+} from "@/lib/blockTypes";
+
+interface BlockSettingsInputProps {
+  id?: string;
+  value: BlockSettings;
+  onChange: (value: BlockSettings) => void;
+  size?: 'md' | 'sm';
+}
+
+// Block type selector plus the timing fields that type needs
+export default function BlockSettingsInput({ id, value, onChange, size = 'md' }: BlockSettingsInputProps) {
+  const fieldClassName = size === 'md'
+    ? "px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    : "px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  // Only accept whole seconds at or above the minimum, like the other builder inputs
+  const secondsHandler = (field: 'time_cap_seconds' | 'interval_seconds' | 'work_seconds' | 'rest_seconds', min: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const seconds = parseInt(e.target.value);
+      if (!isNaN(seconds) && seconds >= min) {
+        onChange({ ...value, [field]: seconds });
+      }
+    };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        id={id}
+        value={value.block_type}
+        onChange={(e) => onChange(defaultBlockSettings(e.target.value as BlockType))}
+        className={`${fieldClassName} min-w-0 flex-1`}
+        aria-label="Tipo de bloque"
+      >
+        {(Object.keys(BLOCK_TYPES) as BlockType[]).map(type => (
+          <option key={type} value={type}>{BLOCK_TYPES[type]}</option>
+        ))}
+      </select>
+
+      {value.block_type === 'emom' && (
+        <>
+          <span className="text-sm text-gray-400">cada</span>
+          <input
+            type="number"
+            value={value.interval_seconds ?? ''}
+            onChange={secondsHandler('interval_seconds', 1)}
+            min="1"
+            className={`${fieldClassName} w-20`}
+            aria-label="Intervalo en segundos"
+          />
+          <span className="text-sm text-gray-400">s</span>
+        </>
+      )}
+
+      {value.block_type === 'amrap' && (
+        <>
+          <input
+            type="number"
+            value={value.time_cap_seconds ?? ''}
+            onChange={secondsHandler('time_cap_seconds', 1)}
+            min="1"
+            className={`${fieldClassName} w-24`}
+            aria-label="Tiempo límite en segundos"
+          />
+          <span className="text-sm text-gray-400">s límite</span>
+        </>
+      )}
+
+      {value.block_type === 'tabata' && (
+        <>
+          <input
+            type="number"
+            value={value.work_seconds ?? ''}
+            onChange={secondsHandler('work_seconds', 1)}
+            min="1"
+            className={`${fieldClassName} w-20`}
+            aria-label="Trabajo en segundos"
+          />
+          <span className="text-sm text-gray-400">s trabajo /</span>
+          <input
+            type="number"
+            value={value.rest_seconds ?? ''}
+            onChange={secondsHandler('rest_seconds', 0)}
+            min="0"
+            className={`${fieldClassName} w-20`}
+            aria-label="Descanso en segundos"
+          />
+          <span className="text-sm text-gray-400">s descanso</span>
+        </>
+      )}
+    </div>
+  );
+}
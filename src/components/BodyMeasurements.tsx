@@ -0,0 +1,183 @@
+import { useState } from "react";
+import LineChart from "@/components/LineChart";
+import {
+  BodyMeasurement,
+  formatMeasurement,
+  MEASUREMENT_FIELD_KEYS,
+  MEASUREMENT_FIELDS,
+  MeasurementField,
+  MeasurementInput,
+  parseMeasurementForm
+} from "@/lib/bodyMeasurements";
+import { parseDateOnly, toDateOnly } from "@/lib/programs";
+
+interface BodyMeasurementsProps {
+  measurements: BodyMeasurement[]; // newest first
+  loading: boolean;
+  onAdd: (input: MeasurementInput) => Promise<void>;
+  onRemove: (id: number) => Promise<void>;
+}
+
+const EMPTY_FORM = Object.fromEntries(MEASUREMENT_FIELD_KEYS.map(field => [field, ''])) as Record<MeasurementField, string>;
+
+const formatDay = (date: string) => parseDateOnly(date).toLocaleDateString('es', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Entry form, trend chart and history of the user's body measurements
+export default function BodyMeasurements({ measurements, loading, onAdd, onRemove }: BodyMeasurementsProps) {
+  const [measuredOn, setMeasuredOn] = useState(() => toDateOnly(new Date()));
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [chartField, setChartField] = useState<MeasurementField>('weight');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = parseMeasurementForm(measuredOn, form);
+    if (typeof input === 'string') {
+      alert(input);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onAdd(input);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error('Error adding measurement:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (measurement: BodyMeasurement) => {
+    if (!window.confirm(`¿Eliminar la medición del ${formatDay(measurement.measured_on)}?`)) return;
+
+    try {
+      await onRemove(measurement.id);
+    } catch (err) {
+      console.error('Error removing measurement:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  // Only show the fields that have been used at least once
+  const usedFields = MEASUREMENT_FIELD_KEYS.filter(field => measurements.some(measurement => measurement[field] !== null));
+  const trendField = usedFields.includes(chartField) ? chartField : usedFields[0] || 'weight';
+
+  const chartPoints = [...measurements]
+    .reverse()
+    .flatMap(measurement => {
+      const value = measurement[trendField];
+      return value === null ? [] : [{ label: formatDay(measurement.measured_on), value: Number(value) }];
+    });
+
+  return (
+    <div className="mt-8 bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800 space-y-8">
+      <div>
+        <h2 className="text-xl font-semibold text-white mb-4">Mediciones corporales</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="measured-on" className="block text-sm font-medium text-gray-400 mb-2">Fecha</label>
+              <input
+                type="date"
+                id="measured-on"
+                value={measuredOn}
+                onChange={(e) => setMeasuredOn(e.target.value)}
+                max={toDateOnly(new Date())}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {MEASUREMENT_FIELD_KEYS.map(field => (
+              <div key={field}>
+                <label htmlFor={`measurement-${field}`} className="block text-sm font-medium text-gray-400 mb-2">
+                  {MEASUREMENT_FIELDS[field].label} ({MEASUREMENT_FIELDS[field].unit})
+                </label>
+                <input
+                  type="number"
+                  id={`measurement-${field}`}
+                  value={form[field]}
+                  onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                  min="0"
+                  step="0.1"
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-md cursor-pointer transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Guardando...' : 'Registrar medición'}
+          </button>
+        </form>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : measurements.length === 0 ? (
+        <p className="text-gray-400">Todavía no has registrado mediciones.</p>
+      ) : (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white">Tendencia</h3>
+              <select
+                value={trendField}
+                onChange={(e) => setChartField(e.target.value as MeasurementField)}
+                className="px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Medida"
+              >
+                {usedFields.map(field => (
+                  <option key={field} value={field}>{MEASUREMENT_FIELDS[field].label}</option>
+                ))}
+              </select>
+            </div>
+            <LineChart
+              series={[{ name: MEASUREMENT_FIELDS[trendField].label, color: '#3b82f6', points: chartPoints }]}
+              unit={MEASUREMENT_FIELDS[trendField].unit}
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-semibold text-white mb-4">Historial</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2 pr-3 font-medium">Fecha</th>
+                  {usedFields.map(field => (
+                    <th key={field} className="py-2 pr-3 font-medium">{MEASUREMENT_FIELDS[field].label}</th>
+                  ))}
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {measurements.map(measurement => (
+                  <tr key={measurement.id} className="text-white">
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatDay(measurement.measured_on)}</td>
+                    {usedFields.map(field => (
+                      <td key={field} className="py-2 pr-3 whitespace-nowrap">{formatMeasurement(field, measurement[field])}</td>
+                    ))}
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(measurement)}
+                        className="text-red-500 hover:text-red-400 text-sm cursor-pointer"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Subscription link for Google/Apple Calendar, with regenerate and revoke
+export default function CalendarFeedSettings() {
+  const { user, supabase } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    async function fetchToken() {
+      if (!user) return;
+
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('calendar_feed_tokens')
+          .select('token')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw new Error(`Error al obtener el enlace del calendario: ${error.message}`);
+
+        setToken(data?.token || null);
+      } catch (err) {
+        console.error('Error fetching calendar feed token:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchToken();
+  }, [user, supabase]);
+
+  const feedUrl = token ? `${window.location.origin}/api/calendar/${token}.ics` : null;
+
+  const handleRegenerate = async () => {
+    if (token && !window.confirm('El enlace actual dejará de funcionar en los calendarios suscritos. ¿Continuar?')) return;
+
+    try {
+      setIsSubmitting(true);
+      const { data, error } = await supabase.rpc('regenerate_calendar_feed_token');
+
+      if (error) throw new Error(`Error al generar el enlace: ${error.message}`);
+
+      setToken(data);
+      setCopied(false);
+    } catch (err) {
+      console.error('Error regenerating calendar feed token:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!user || !window.confirm('¿Revocar el enlace? Los calendarios suscritos dejarán de actualizarse.')) return;
+
+    try {
+      setIsSubmitting(true);
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw new Error(`Error al revocar el enlace: ${error.message}`);
+
+      setToken(null);
+    } catch (err) {
+      console.error('Error revoking calendar feed token:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  return (
+    <div className="mt-8 bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800">
+      <h2 className="text-xl font-semibold text-white mb-2">Calendario externo</h2>
+      <p className="text-gray-400 mb-4">
+        Suscríbete desde Google Calendar o Apple Calendar para ver tus entrenamientos planificados.
+        Cualquiera con este enlace puede ver tu calendario.
+      </p>
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+      ) : (
+        <>
+          {feedUrl && (
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Enlace del calendario"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm cursor-pointer"
+              >
+                {copied ? 'Copiado' : 'Copiar'}
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleRegenerate}
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg cursor-pointer disabled:opacity-50"
+            >
+              {token ? 'Regenerar enlace' : 'Generar enlace'}
+            </button>
+            {token && (
+              <button
+                onClick={handleRevoke}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-red-500 hover:text-red-400 text-sm font-medium cursor-pointer disabled:opacity-50"
+              >
+                Revocar
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState, useRef } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { useAuth } from "@/contexts/AuthContext";
+import { uploadExerciseMedia } from "@/lib/exerciseStorage";
+import { EMPTY_TAXONOMY, ExerciseTaxonomy } from "@/lib/exerciseTaxonomy";
+import ExerciseTaxonomyFields from "./ExerciseTaxonomyFields";
+
+interface CreateExerciseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated?: () => void;
+}
+
+const EMPTY_FORM = { name: '', description: '' };
+
+export default function CreateExerciseModal({ isOpen, onClose, onCreated }: CreateExerciseModalProps) {
+  const { user } = useAuth();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [taxonomy, setTaxonomy] = useState<ExerciseTaxonomy>(EMPTY_TAXONOMY);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setTaxonomy(EMPTY_TAXONOMY);
+    setVideoFile(null);
+    setImageFile(null);
+    if (videoInputRef.current) videoInputRef.current.value = '';
+    if (imageInputRef.current) imageInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm({
+      ...form,
+      [name]: value
+    });
+  };
+
+  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      if (file.type !== 'video/mp4') {
+        alert('Por favor, sube un archivo de video MP4');
+        return;
+      }
+      setVideoFile(file);
+    }
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      if (!file.type.startsWith('image/')) {
+        alert('Por favor, sube un archivo de imagen válido');
+        return;
+      }
+      setImageFile(file);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      alert('Debes iniciar sesión para crear ejercicios');
+      return;
+    }
+
+    if (!form.name.trim()) {
+      alert('Por favor, ingresa el nombre del ejercicio');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const supabase = createClientComponentClient();
+
+      // Upload media first so the row is only created once the files exist
+      const video = videoFile ? await uploadExerciseMedia(supabase, 'videos', videoFile) : null;
+      const image = imageFile ? await uploadExerciseMedia(supabase, 'images', imageFile) : null;
+
+      const { error } = await supabase
+        .from('exercises')
+        .insert({
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          video,
+          image,
+          ...taxonomy,
+          created_by: user.id
+        });
+
+      if (error) throw new Error(`Error al crear ejercicio: ${error.message}`);
+
+      resetForm();
+      onClose();
+      if (onCreated) onCreated();
+    } catch (err) {
+      console.error('Error creating exercise:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 rounded-lg shadow-xl max-w-lg w-full mx-auto overflow-hidden">
+        <div className="flex justify-between items-center p-6 border-b border-gray-800">
+          <h3 className="text-xl font-medium text-white">Nuevo Ejercicio</h3>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-white cursor-pointer"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 max-h-[80vh] overflow-y-auto">
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="new-exercise-name" className="block text-sm font-medium text-gray-300 mb-1">
+                Nombre del Ejercicio
+              </label>
+              <input
+                type="text"
+                id="new-exercise-name"
+                name="name"
+                value={form.name}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Ingresa el nombre del ejercicio"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="new-exercise-description" className="block text-sm font-medium text-gray-300 mb-1">
+                Descripción
+              </label>
+              <textarea
+                id="new-exercise-description"
+                name="description"
+                value={form.description}
+                onChange={handleInputChange}
+                rows={3}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Ingresa la descripción del ejercicio"
+              ></textarea>
+            </div>
+
+            <ExerciseTaxonomyFields value={taxonomy} onChange={setTaxonomy} />
+
+            <div>
+              <label htmlFor="new-exercise-video" className="block text-sm font-medium text-gray-300 mb-1">
+                Video (MP4)
+              </label>
+              <div className="flex items-center mt-1">
+                <input
+                  type="file"
+                  id="new-exercise-video"
+                  ref={videoInputRef}
+                  accept="video/mp4"
+                  onChange={handleVideoChange}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700 file:content-['Elegir_archivo']"
+                />
+              </div>
+              {videoFile && (
+                <p className="mt-1 text-sm text-gray-400">Seleccionado: {videoFile.name}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="new-exercise-image" className="block text-sm font-medium text-gray-300 mb-1">
+                Imagen de Miniatura
+              </label>
+              <div className="flex items-center mt-1">
+                <input
+                  type="file"
+                  id="new-exercise-image"
+                  ref={imageInputRef}
+                  accept="image/*"
+                  onChange={handleImageChange}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700 file:content-['Elegir_archivo']"
+                />
+              </div>
+              {imageFile && (
+                <p className="mt-1 text-sm text-gray-400">Seleccionado: {imageFile.name}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white mr-2 cursor-pointer"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md shadow-sm flex items-center cursor-pointer disabled:opacity-50"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Creando...
+                </>
+              ) : 'Crear Ejercicio'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
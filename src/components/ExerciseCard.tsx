@@ -1,8 +1,12 @@
 import { useState, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import VideoModal from "./VideoModal";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useRouter } from "next/navigation";
+import { uploadExerciseMedia } from "@/lib/exerciseStorage";
+import { DIFFICULTIES, ExerciseTaxonomy, getTaxonomy, MUSCLE_GROUPS } from "@/lib/exerciseTaxonomy";
+import ExerciseTaxonomyFields from "./ExerciseTaxonomyFields";
 
 // Profile type for creator information
 interface Profile {
@@ -12,13 +16,14 @@ interface Profile {
   email?: string;
 }
 
-export interface Exercise {
+export interface Exercise extends Partial<ExerciseTaxonomy> {
   id: number;
   name: string;
   description?: string;
   image?: string;
   video?: string;
   created_by?: string;
+  created_at?: string;
   creator?: Profile; // Creator profile information
 }
 
@@ -35,6 +40,7 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
     name: exercise.name,
     description: exercise.description || '',
   });
+  const [taxonomy, setTaxonomy] = useState<ExerciseTaxonomy>(getTaxonomy(exercise));
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -88,6 +94,33 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
     );
   };
   
+  // Primary muscle groups and difficulty as small tags
+  const TaxonomyTags = () => {
+    const { primary_muscle_groups, difficulty, is_unilateral } = getTaxonomy(exercise);
+    
+    if (primary_muscle_groups.length === 0 && !difficulty && !is_unilateral) return null;
+    
+    return (
+      <div className="mt-2 flex flex-wrap gap-1">
+        {primary_muscle_groups.map(group => (
+          <span key={group} className="px-2 py-0.5 bg-blue-900/40 text-blue-300 text-xs rounded-full">
+            {MUSCLE_GROUPS[group]}
+          </span>
+        ))}
+        {difficulty && (
+          <span className="px-2 py-0.5 bg-gray-800 text-gray-300 text-xs rounded-full">
+            {DIFFICULTIES[difficulty]}
+          </span>
+        )}
+        {is_unilateral && (
+          <span className="px-2 py-0.5 bg-gray-800 text-gray-300 text-xs rounded-full">
+            Unilateral
+          </span>
+        )}
+      </div>
+    );
+  };
+  
   const handleOpenVideo = (e: React.MouseEvent) => {
     e.preventDefault();
     if (exercise.video) {
@@ -100,6 +133,7 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
       name: exercise.name,
       description: exercise.description || '',
     });
+    setTaxonomy(getTaxonomy(exercise));
     setVideoFile(null);
     setImageFile(null);
     if (videoInputRef.current) videoInputRef.current.value = '';
@@ -138,52 +172,17 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
       const updateData: any = {
         name: editForm.name,
         description: editForm.description,
+        ...taxonomy,
       };
       
       // Upload new video if provided
       if (videoFile) {
-        // Generate unique filename
-        const timestamp = Date.now();
-        const videoFileName = `${timestamp}_${videoFile.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-        
-        const { data: videoData, error: videoError } = await supabase.storage
-          .from('exercises')
-          .upload(`videos/${videoFileName}`, videoFile, {
-            cacheControl: '3600',
-            upsert: false
-          });
-          
-        if (videoError) throw new Error(`Error al subir el video: ${videoError.message}`);
-        
-        // Get public URL
-        const videoUrl = supabase.storage
-          .from('exercises')
-          .getPublicUrl(`videos/${videoFileName}`).data.publicUrl;
-          
-        updateData.video = videoUrl;
+        updateData.video = await uploadExerciseMedia(supabase, 'videos', videoFile);
       }
       
       // Upload new image if provided
       if (imageFile) {
-        // Generate unique filename
-        const timestamp = Date.now();
-        const imageFileName = `${timestamp}_${imageFile.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-        
-        const { data: imageData, error: imageError } = await supabase.storage
-          .from('exercises')
-          .upload(`images/${imageFileName}`, imageFile, {
-            cacheControl: '3600',
-            upsert: false
-          });
-          
-        if (imageError) throw new Error(`Error al subir la imagen: ${imageError.message}`);
-        
-        // Get public URL
-        const imageUrl = supabase.storage
-          .from('exercises')
-          .getPublicUrl(`images/${imageFileName}`).data.publicUrl;
-          
-        updateData.image = imageUrl;
+        updateData.image = await uploadExerciseMedia(supabase, 'images', imageFile);
       }
       
       // Update exercise in database
@@ -258,10 +257,13 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
             )}
           </div>
           <div className="p-6 flex-1">
-            <h2 className="text-xl font-semibold mb-2 text-white">{exercise.name}</h2>
+            <h2 className="text-xl font-semibold mb-2 text-white">
+              <Link href={`/exercises/${exercise.id}`} className="hover:text-blue-400 transition-colors">{exercise.name}</Link>
+            </h2>
             {exercise.description && (
               <p className="text-gray-300 mb-2">{exercise.description}</p>
             )}
+            <TaxonomyTags />
             <CreatorAvatar />
             <div className="mt-2 space-y-4">
               {exercise.video && (
@@ -327,7 +329,7 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
                 </button>
               </div>
               
-              <div className="p-6">
+              <div className="p-6 max-h-[80vh] overflow-y-auto">
                 <div className="space-y-4">
                   <div>
                     <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">
@@ -360,6 +362,8 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
                     ></textarea>
                   </div>
                   
+                  <ExerciseTaxonomyFields value={taxonomy} onChange={setTaxonomy} />
+                  
                   <div>
                     <label htmlFor="video" className="block text-sm font-medium text-gray-300 mb-1">
                       Video (MP4) - Dejar vacío para mantener el video actual
@@ -442,7 +446,9 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
   return (
     <>
       <div className="border border-gray-700 bg-gray-900 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow relative">
-        <h2 className="text-xl font-semibold mb-4 text-white">{exercise.name}</h2>
+        <h2 className="text-xl font-semibold mb-4 text-white">
+          <Link href={`/exercises/${exercise.id}`} className="hover:text-blue-400 transition-colors">{exercise.name}</Link>
+        </h2>
         {exercise.image && (
           <div className="mb-4 w-full h-48 relative rounded-md overflow-hidden">
             <Image 
@@ -456,6 +462,7 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
         {exercise.description && (
           <p className="text-gray-600 dark:text-gray-300 mb-4">{exercise.description}</p>
         )}
+        <TaxonomyTags />
         <CreatorAvatar />
         <div className="flex flex-col space-y-4 mt-4">
           {exercise.video && (
@@ -520,7 +527,7 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
               </button>
             </div>
             
-            <div className="p-6">
+            <div className="p-6 max-h-[80vh] overflow-y-auto">
               <div className="space-y-4">
                 <div>
                   <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">
@@ -553,6 +560,8 @@ export default function ExerciseCard({ exercise, layout = 'horizontal', onRefetc
                   ></textarea>
                 </div>
                 
+                <ExerciseTaxonomyFields value={taxonomy} onChange={setTaxonomy} />
+                
                 <div>
                   <label htmlFor="video" className="block text-sm font-medium text-gray-300 mb-1">
                     Video (MP4) - Dejar vacío para mantener el video actual
@@ -0,0 +1,91 @@
+import {
+  DIFFICULTIES,
+  Difficulty,
+  EMPTY_FILTERS,
+  EQUIPMENT,
+  Equipment,
+  ExerciseFilters,
+  hasActiveFilters,
+  MOVEMENT_PATTERNS,
+  MovementPattern,
+  MUSCLE_GROUPS,
+  MuscleGroup
+} from "@/lib/exerciseTaxonomy";
+
+interface ExerciseFilterBarProps {
+  filters: ExerciseFilters;
+  onChange: (filters: ExerciseFilters) => void;
+}
+
+const selectClassName = "px-3 py-2 bg-gray-800 border border-gray-700 text-white text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Taxonomy filters used by the exercise library and the workout builder
+export default function ExerciseFilterBar({ filters, onChange }: ExerciseFilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={filters.muscleGroup}
+        onChange={(e) => onChange({ ...filters, muscleGroup: e.target.value as MuscleGroup | '' })}
+        className={selectClassName}
+        aria-label="Filtrar por grupo muscular"
+      >
+        <option value="">Todos los músculos</option>
+        {(Object.keys(MUSCLE_GROUPS) as MuscleGroup[]).map(group => (
+          <option key={group} value={group}>{MUSCLE_GROUPS[group]}</option>
+        ))}
+      </select>
+      <select
+        value={filters.equipment}
+        onChange={(e) => onChange({ ...filters, equipment: e.target.value as Equipment | '' })}
+        className={selectClassName}
+        aria-label="Filtrar por equipamiento"
+      >
+        <option value="">Todo el equipamiento</option>
+        {(Object.keys(EQUIPMENT) as Equipment[]).map(item => (
+          <option key={item} value={item}>{EQUIPMENT[item]}</option>
+        ))}
+      </select>
+      <select
+        value={filters.movementPattern}
+        onChange={(e) => onChange({ ...filters, movementPattern: e.target.value as MovementPattern | '' })}
+        className={selectClassName}
+        aria-label="Filtrar por patrón de movimiento"
+      >
+        <option value="">Todos los patrones</option>
+        {(Object.keys(MOVEMENT_PATTERNS) as MovementPattern[]).map(pattern => (
+          <option key={pattern} value={pattern}>{MOVEMENT_PATTERNS[pattern]}</option>
+        ))}
+      </select>
+      <select
+        value={filters.difficulty}
+        onChange={(e) => onChange({ ...filters, difficulty: e.target.value as Difficulty | '' })}
+        className={selectClassName}
+        aria-label="Filtrar por dificultad"
+      >
+        <option value="">Cualquier dificultad</option>
+        {(Object.keys(DIFFICULTIES) as Difficulty[]).map(difficulty => (
+          <option key={difficulty} value={difficulty}>{DIFFICULTIES[difficulty]}</option>
+        ))}
+      </select>
+      <select
+        value={filters.unilateral}
+        onChange={(e) => onChange({ ...filters, unilateral: e.target.value as ExerciseFilters['unilateral'] })}
+        className={selectClassName}
+        aria-label="Filtrar por lateralidad"
+      >
+        <option value="">Bilateral y unilateral</option>
+        <option value="no">Solo bilateral</option>
+        <option value="yes">Solo unilateral</option>
+      </select>
+      {hasActiveFilters(filters) && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="px-3 py-2 text-sm text-gray-400 hover:text-white cursor-pointer"
+        >
+          Limpiar filtros
+        </button>
+      )}
+    </div>
+  );
+}
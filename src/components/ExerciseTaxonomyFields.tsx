@@ -0,0 +1,137 @@
+import {
+  DIFFICULTIES,
+  Difficulty,
+  EQUIPMENT,
+  Equipment,
+  ExerciseTaxonomy,
+  MOVEMENT_PATTERNS,
+  MovementPattern,
+  MUSCLE_GROUPS,
+  MuscleGroup
+} from "@/lib/exerciseTaxonomy";
+
+interface ExerciseTaxonomyFieldsProps {
+  value: ExerciseTaxonomy;
+  onChange: (value: ExerciseTaxonomy) => void;
+}
+
+interface ChipGroupProps<T extends string> {
+  label: string;
+  options: Record<T, string>;
+  selected: T[];
+  onToggle: (option: T) => void;
+}
+
+function ChipGroup<T extends string>({ label, options, selected, onToggle }: ChipGroupProps<T>) {
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-300 mb-1">{label}</span>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(options) as T[]).map(option => {
+          const isSelected = selected.includes(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onToggle(option)}
+              className={`px-2 py-1 rounded-full text-xs border transition-colors cursor-pointer ${
+                isSelected
+                  ? 'bg-blue-600 border-blue-500 text-white'
+                  : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500'
+              }`}
+            >
+              {options[option]}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+// Metadata inputs shared by the create and edit exercise modals
+export default function ExerciseTaxonomyFields({ value, onChange }: ExerciseTaxonomyFieldsProps) {
+  // A muscle can't be primary and secondary at the same time
+  const togglePrimary = (group: MuscleGroup) => onChange({
+    ...value,
+    primary_muscle_groups: toggle(value.primary_muscle_groups, group),
+    secondary_muscle_groups: value.secondary_muscle_groups.filter(g => g !== group)
+  });
+
+  const toggleSecondary = (group: MuscleGroup) => onChange({
+    ...value,
+    secondary_muscle_groups: toggle(value.secondary_muscle_groups, group),
+    primary_muscle_groups: value.primary_muscle_groups.filter(g => g !== group)
+  });
+
+  return (
+    <div className="space-y-4">
+      <ChipGroup
+        label="Músculos principales"
+        options={MUSCLE_GROUPS}
+        selected={value.primary_muscle_groups}
+        onToggle={togglePrimary}
+      />
+      <ChipGroup
+        label="Músculos secundarios"
+        options={MUSCLE_GROUPS}
+        selected={value.secondary_muscle_groups}
+        onToggle={toggleSecondary}
+      />
+      <ChipGroup
+        label="Equipamiento"
+        options={EQUIPMENT}
+        selected={value.equipment}
+        onToggle={(item: Equipment) => onChange({ ...value, equipment: toggle(value.equipment, item) })}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="movement-pattern" className="block text-sm font-medium text-gray-300 mb-1">
+            Patrón de movimiento
+          </label>
+          <select
+            id="movement-pattern"
+            value={value.movement_pattern || ''}
+            onChange={(e) => onChange({ ...value, movement_pattern: (e.target.value || null) as MovementPattern | null })}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Sin especificar</option>
+            {(Object.keys(MOVEMENT_PATTERNS) as MovementPattern[]).map(pattern => (
+              <option key={pattern} value={pattern}>{MOVEMENT_PATTERNS[pattern]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="difficulty" className="block text-sm font-medium text-gray-300 mb-1">
+            Dificultad
+          </label>
+          <select
+            id="difficulty"
+            value={value.difficulty || ''}
+            onChange={(e) => onChange({ ...value, difficulty: (e.target.value || null) as Difficulty | null })}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Sin especificar</option>
+            {(Object.keys(DIFFICULTIES) as Difficulty[]).map(difficulty => (
+              <option key={difficulty} value={difficulty}>{DIFFICULTIES[difficulty]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.is_unilateral}
+          onChange={(e) => onChange({ ...value, is_unilateral: e.target.checked })}
+          className="mr-2 h-4 w-4 rounded border-gray-700 bg-gray-800 text-blue-600 focus:ring-blue-500"
+        />
+        Ejercicio unilateral
+      </label>
+    </div>
+  );
+}
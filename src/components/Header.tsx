@@ -4,9 +4,13 @@ import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTrainerClients } from '@/hooks/useTrainerClients';
+import { usePermissions } from '@/hooks/useRole';
 
 export default function Header() {
   const { user, signOut } = useAuth();
+  const { can } = usePermissions();
+  const { counts: clientCounts } = useTrainerClients(can('view_clients'));
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
@@ -69,13 +73,16 @@ export default function Header() {
             <div className="relative" ref={dropdownRef}>
               <button
                 onClick={() => setIsOpen(!isOpen)}
-                className="flex items-center justify-center w-12 h-12 rounded-full hover:bg-gray-800 focus:outline-none"
+                className="relative flex items-center justify-center w-12 h-12 rounded-full hover:bg-gray-800 focus:outline-none"
                 aria-expanded={isOpen}
                 aria-haspopup="true"
               >
                 <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
                 </svg>
+                {can('view_clients') && clientCounts.pending > 0 && (
+                  <span className="absolute top-1 right-1 w-3 h-3 bg-blue-500 rounded-full" />
+                )}
               </button>
               
               {isOpen && (
@@ -112,6 +119,24 @@ export default function Header() {
                       </svg>
                       Mis Rutinas
                     </Link>
+                    <Link 
+                      href="/programs" 
+                      className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white flex items-center"
+                    >
+                      <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      Programas
+                    </Link>
+                    <Link 
+                      href="/calendar" 
+                      className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white flex items-center"
+                    >
+                      <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Calendario
+                    </Link>
                     <Link 
                       href="/entrenadores" 
                       className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white flex items-center"
@@ -121,6 +146,38 @@ export default function Header() {
                       </svg>
                       Entrenadores
                     </Link>
+                    {can('manage_exercises') && (
+                      <Link 
+                        href="/exercises" 
+                        className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                        </svg>
+                        Ejercicios
+                      </Link>
+                    )}
+                    {can('view_clients') && (
+                      <Link 
+                        href="/clientes" 
+                        className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                        </svg>
+                        Clientes
+                        {clientCounts.pending > 0 && (
+                          <span className="ml-auto bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full" title="Solicitudes pendientes">
+                            {clientCounts.pending}
+                          </span>
+                        )}
+                        {clientCounts.accepted > 0 && (
+                          <span className={`${clientCounts.pending > 0 ? 'ml-1' : 'ml-auto'} bg-gray-800 text-gray-300 text-xs px-2 py-0.5 rounded-full`} title="Clientes aceptados">
+                            {clientCounts.accepted}
+                          </span>
+                        )}
+                      </Link>
+                    )}
                     <button
                       onClick={handleSignOut}
                       className="block w-full text-left px-4 py-2 text-sm text-red-400 hover:bg-gray-800 hover:text-red-300"
@@ -0,0 +1,97 @@
+import { ChartPoint } from "@/lib/progress";
+
+export interface ChartSeries {
+  name: string;
+  color: string; // any SVG colour
+  points: ChartPoint[];
+}
+
+interface LineChartProps {
+  series: ChartSeries[]; // all series share the labels of the first one
+  unit?: string;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 48 };
+const Y_TICKS = 4;
+const MAX_X_LABELS = 6;
+
+// Round the axis maximum up to a tidy number so tick labels stay readable
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+// Minimal responsive SVG line chart with a shared category x axis
+export default function LineChart({ series, unit = '', height = 220 }: LineChartProps) {
+  const labels = series[0]?.points.map(point => point.label) || [];
+  const values = series.flatMap(line => line.points.map(point => point.value));
+
+  if (labels.length === 0) {
+    return <p className="text-gray-400 text-sm">Todavía no hay datos para mostrar.</p>;
+  }
+
+  const max = niceMax(Math.max(...values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) => PADDING.left + (labels.length === 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const labelEvery = Math.ceil(labels.length / MAX_X_LABELS);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {Array.from({ length: Y_TICKS + 1 }, (_, index) => {
+          const value = (max / Y_TICKS) * index;
+          return (
+            <g key={index}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#1f2937" />
+              <text x={PADDING.left - 8} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#9ca3af">
+                {+value.toFixed(1)}
+              </text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, index) => (index % labelEvery === 0 || index === labels.length - 1) && (
+          <text key={index} x={x(index)} y={height - 8} textAnchor="middle" fontSize="11" fill="#9ca3af">
+            {label}
+          </text>
+        ))}
+
+        {series.map(line => (
+          <g key={line.name}>
+            <polyline
+              points={line.points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ')}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {line.points.map((point, index) => (
+              <circle key={index} cx={x(index)} cy={y(point.value)} r={3} fill={line.color}>
+                <title>{`${line.name} · ${point.label}: ${point.value}${unit ? ` ${unit}` : ''}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-400">
+          {series.map(line => (
+            <span key={line.name} className="inline-flex items-center">
+              <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: line.color }}></span>
+              {line.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import {
+  defaultLoad,
+  LOAD_MODES,
+  LoadMode,
+  LoadPrescription,
+  numericRange,
+  QUALITATIVE_LOADS,
+  QualitativeLoad,
+  WEIGHT_UNITS,
+  WeightUnit
+} from "@/lib/loadPrescription";
+
+interface LoadPrescriptionInputProps {
+  id?: string;
+  value: LoadPrescription;
+  onChange: (value: LoadPrescription) => void;
+  size?: 'md' | 'sm';
+}
+
+// Mode selector plus the value (and unit) fields that mode needs
+export default function LoadPrescriptionInput({ id, value, onChange, size = 'md' }: LoadPrescriptionInputProps) {
+  const fieldClassName = size === 'md'
+    ? "px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    : "px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (value.mode === 'none' || value.mode === 'qualitative') return;
+
+    const amount = parseFloat(e.target.value);
+    const [min, max] = numericRange(value.mode);
+    if (!isNaN(amount) && amount >= min && amount <= max) {
+      onChange({ ...value, value: amount });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <select
+        id={id}
+        value={value.mode}
+        onChange={(e) => onChange(defaultLoad(e.target.value as LoadMode))}
+        className={`${fieldClassName} min-w-0 flex-1`}
+        aria-label="Tipo de carga"
+      >
+        {(Object.keys(LOAD_MODES) as LoadMode[]).map(mode => (
+          <option key={mode} value={mode}>{LOAD_MODES[mode]}</option>
+        ))}
+      </select>
+
+      {value.mode === 'qualitative' && (
+        <select
+          value={value.value}
+          onChange={(e) => onChange({ mode: 'qualitative', value: e.target.value as QualitativeLoad })}
+          className={`${fieldClassName} min-w-0 flex-1`}
+          aria-label="Carga"
+        >
+          {(Object.keys(QUALITATIVE_LOADS) as QualitativeLoad[]).map(level => (
+            <option key={level} value={level}>{QUALITATIVE_LOADS[level]}</option>
+          ))}
+        </select>
+      )}
+
+      {value.mode !== 'none' && value.mode !== 'qualitative' && (
+        <input
+          type="number"
+          value={value.value}
+          onChange={handleAmountChange}
+          min={numericRange(value.mode)[0]}
+          max={numericRange(value.mode)[1]}
+          step={value.mode === 'rpe' ? 0.5 : value.mode === 'weight' ? 0.5 : 1}
+          className={`${fieldClassName} w-20`}
+          aria-label={LOAD_MODES[value.mode]}
+        />
+      )}
+
+      {value.mode === 'weight' && (
+        <select
+          value={value.unit}
+          onChange={(e) => onChange({ ...value, unit: e.target.value as WeightUnit })}
+          className={fieldClassName}
+          aria-label="Unidad"
+        >
+          {WEIGHT_UNITS.map(unit => (
+            <option key={unit} value={unit}>{unit}</option>
+          ))}
+        </select>
+      )}
+
+      {value.mode === 'percent_1rm' && (
+        <span className="self-center text-sm text-gray-400">%</span>
+      )}
+    </div>
+  );
+}
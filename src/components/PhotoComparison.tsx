@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from "react";
+import Image from "next/image";
+import { PHOTO_POSE_KEYS, PHOTO_POSES, PhotoDay, PhotoPose } from "@/lib/progressPhotos";
+import { parseDateOnly } from "@/lib/programs";
+
+interface PhotoComparisonProps {
+  days: PhotoDay[]; // newest first
+}
+
+type ComparisonMode = 'side' | 'slider';
+
+const formatDay = (date: string) => parseDateOnly(date).toLocaleDateString('es', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Compare the same pose on two dates, next to each other or with a slider
+export default function PhotoComparison({ days }: PhotoComparisonProps) {
+  const [beforeDate, setBeforeDate] = useState(days[days.length - 1].date);
+  const [afterDate, setAfterDate] = useState(days[0].date);
+  const [pose, setPose] = useState<PhotoPose>('front');
+  const [mode, setMode] = useState<ComparisonMode>('side');
+  const [sliderPosition, setSliderPosition] = useState(50);
+
+  const before = days.find(day => day.date === beforeDate)?.photos[pose];
+  const after = days.find(day => day.date === afterDate)?.photos[pose];
+
+  const selectClassName = "w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderMissing = (date: string) => (
+    <div className="aspect-[3/4] flex items-center justify-center bg-gray-800 rounded-lg text-sm text-gray-400 text-center p-4">
+      Sin foto de {PHOTO_POSES[pose].toLowerCase()} el {formatDay(date)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="compare-before" className="block text-sm font-medium text-gray-400 mb-2">Antes</label>
+          <select id="compare-before" value={beforeDate} onChange={(e) => setBeforeDate(e.target.value)} className={selectClassName}>
+            {days.map(day => <option key={day.date} value={day.date}>{formatDay(day.date)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="compare-after" className="block text-sm font-medium text-gray-400 mb-2">Después</label>
+          <select id="compare-after" value={afterDate} onChange={(e) => setAfterDate(e.target.value)} className={selectClassName}>
+            {days.map(day => <option key={day.date} value={day.date}>{formatDay(day.date)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="compare-pose" className="block text-sm font-medium text-gray-400 mb-2">Pose</label>
+          <select id="compare-pose" value={pose} onChange={(e) => setPose(e.target.value as PhotoPose)} className={selectClassName}>
+            {PHOTO_POSE_KEYS.map(key => <option key={key} value={key}>{PHOTO_POSES[key]}</option>)}
+          </select>
+        </div>
+        <div>
+          <span className="block text-sm font-medium text-gray-400 mb-2">Vista</span>
+          <div className="flex rounded-lg overflow-hidden border border-gray-700">
+            {(['side', 'slider'] as ComparisonMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`flex-1 px-3 py-2 text-sm cursor-pointer transition-colors ${
+                  mode === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option === 'side' ? 'Lado a lado' : 'Deslizador'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'side' || !before?.url || !after?.url ? (
+        <div className="grid grid-cols-2 gap-4 max-w-3xl">
+          {[{ date: beforeDate, photo: before }, { date: afterDate, photo: after }].map(({ date, photo }, index) => (
+            <div key={index}>
+              {photo?.url ? (
+                <div className="relative aspect-[3/4] rounded-lg overflow-hidden bg-gray-800">
+                  <Image src={photo.url} alt={`${PHOTO_POSES[pose]} ${formatDay(date)}`} fill unoptimized className="object-cover" />
+                </div>
+              ) : renderMissing(date)}
+              <p className="text-sm text-gray-400 mt-2 text-center">{formatDay(date)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="max-w-md">
+          <div className="relative aspect-[3/4] rounded-lg overflow-hidden bg-gray-800 select-none">
+            <Image src={after.url} alt={`${PHOTO_POSES[pose]} ${formatDay(afterDate)}`} fill unoptimized className="object-cover" />
+            {/* The "before" photo is drawn on top and clipped to the slider position */}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
+              <Image src={before.url} alt={`${PHOTO_POSES[pose]} ${formatDay(beforeDate)}`} fill unoptimized className="object-cover" />
+            </div>
+            <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: `${sliderPosition}%` }} />
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={sliderPosition}
+            onChange={(e) => setSliderPosition(Number(e.target.value))}
+            className="w-full mt-3"
+            aria-label="Posición de la comparación"
+          />
+          <div className="flex justify-between text-sm text-gray-400">
+            <span>{formatDay(beforeDate)}</span>
+            <span>{formatDay(afterDate)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import LineChart from "@/components/LineChart";
+import { useTrainingHistory } from "@/hooks/useTrainingHistory";
+import { exerciseProgress, sessionsThisWeek, weeklyStreak, weeklyTonnage } from "@/lib/progress";
+import { parseDateOnly } from "@/lib/programs";
+
+// Weekly stats and per-exercise progress charts from the user's logged sessions
+export default function ProgressDashboard() {
+  const { sessions, loading, error } = useTrainingHistory();
+  const [selectedExerciseId, setSelectedExerciseId] = useState<number | null>(null);
+
+  // Exercises with at least one weighted set, most recently trained first
+  const exercises = useMemo(() => {
+    const seen = new Map<number, string>();
+    [...sessions].reverse().forEach(session => {
+      (session.set_logs || []).forEach(log => {
+        if (log.exercise && log.weight !== null && log.weight > 0 && !seen.has(log.exercise.id)) {
+          seen.set(log.exercise.id, log.exercise.name);
+        }
+      });
+    });
+    return [...seen.entries()].map(([id, name]) => ({ id, name }));
+  }, [sessions]);
+
+  const exerciseId = selectedExerciseId ?? exercises[0]?.id ?? null;
+  const progress = useMemo(
+    () => (exerciseId === null ? [] : exerciseProgress(sessions, exerciseId)),
+    [sessions, exerciseId]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error: {error}</div>;
+  }
+
+  const tonnage = weeklyTonnage(sessions);
+  const thisWeekTonnage = tonnage[tonnage.length - 1]?.value || 0;
+  const streak = weeklyStreak(sessions);
+  const progressLabel = (date: string) => parseDateOnly(date).toLocaleDateString('es', { day: 'numeric', month: 'short' });
+
+  return (
+    <section className="w-full space-y-6 text-left">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+          <p className="text-sm text-gray-400">Sesiones esta semana</p>
+          <p className="text-4xl font-bold text-white mt-1">{sessionsThisWeek(sessions)}</p>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+          <p className="text-sm text-gray-400">Racha</p>
+          <p className="text-4xl font-bold text-white mt-1">
+            {streak} <span className="text-lg text-gray-400">{streak === 1 ? 'semana' : 'semanas'}</span>
+          </p>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+          <p className="text-sm text-gray-400">Tonelaje semanal</p>
+          <p className="text-4xl font-bold text-white mt-1">
+            {thisWeekTonnage.toLocaleString('es')} <span className="text-lg text-gray-400">kg</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Tonelaje por semana</h2>
+        <LineChart series={[{ name: 'Tonelaje', color: '#3b82f6', points: tonnage }]} unit="kg" />
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-xl font-semibold text-white">Progreso por ejercicio</h2>
+          {exercises.length > 0 && (
+            <div className="flex items-center gap-3">
+              {exerciseId !== null && (
+                <Link href={`/exercises/${exerciseId}`} className="text-sm text-blue-400 hover:text-blue-300">
+                  Ver récords
+                </Link>
+              )}
+              <select
+                value={exerciseId ?? ''}
+                onChange={(e) => setSelectedExerciseId(parseInt(e.target.value))}
+                className="px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Ejercicio"
+              >
+                {exercises.map(exercise => (
+                  <option key={exercise.id} value={exercise.id}>{exercise.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        {exercises.length === 0 ? (
+          <p className="text-gray-400 text-sm">Registra series con peso para ver tu progreso.</p>
+        ) : (
+          <LineChart
+            unit="kg"
+            series={[
+              { name: 'Serie más pesada', color: '#3b82f6', points: progress.map(point => ({ label: progressLabel(point.date), value: point.topSet })) },
+              { name: '1RM estimado', color: '#22c55e', points: progress.map(point => ({ label: progressLabel(point.date), value: point.e1rm })) }
+            ]}
+          />
+        )}
+      </div>
+    </section>
+  );
+}
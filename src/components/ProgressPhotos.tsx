@@ -0,0 +1,179 @@
+'use client';
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import PhotoComparison from "@/components/PhotoComparison";
+import { useProgressPhotos } from "@/hooks/useProgressPhotos";
+import { groupPhotosByDate, PHOTO_POSE_KEYS, PHOTO_POSES, PhotoPose, ProgressPhoto } from "@/lib/progressPhotos";
+import { parseDateOnly, toDateOnly } from "@/lib/programs";
+
+interface ProgressPhotosProps {
+  athleteId?: string; // a trainer viewing a client's photos; read-only
+}
+
+const formatDay = (date: string) => parseDateOnly(date).toLocaleDateString('es', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Upload form, gallery grouped by date and comparison of progress photos
+export default function ProgressPhotos({ athleteId }: ProgressPhotosProps) {
+  const { photos, loading, error, addPhoto, removePhoto } = useProgressPhotos(athleteId);
+  const [takenOn, setTakenOn] = useState(() => toDateOnly(new Date()));
+  const [pose, setPose] = useState<PhotoPose>('front');
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const readOnly = Boolean(athleteId);
+  const days = groupPhotosByDate(photos);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!file) {
+      alert('Selecciona una foto');
+      return;
+    }
+    if (!file.type.startsWith('image/')) {
+      alert('El archivo debe ser una imagen');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      await addPhoto(takenOn, pose, file);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      console.error('Error uploading progress photo:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = async (photo: ProgressPhoto) => {
+    if (!window.confirm(`¿Eliminar la foto de ${PHOTO_POSES[photo.pose].toLowerCase()} del ${formatDay(photo.taken_on)}?`)) return;
+
+    try {
+      await removePhoto(photo);
+    } catch (err) {
+      console.error('Error removing progress photo:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800 space-y-8">
+      <div>
+        <h2 className="text-xl font-semibold text-white mb-1">Fotos de progreso</h2>
+        {!readOnly && (
+          <p className="text-sm text-gray-400 mb-4">Solo tú y tus entrenadores pueden ver estas fotos.</p>
+        )}
+        {!readOnly && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="photo-taken-on" className="block text-sm font-medium text-gray-400 mb-2">Fecha</label>
+              <input
+                type="date"
+                id="photo-taken-on"
+                value={takenOn}
+                onChange={(e) => setTakenOn(e.target.value)}
+                max={toDateOnly(new Date())}
+                required
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="photo-pose" className="block text-sm font-medium text-gray-400 mb-2">Pose</label>
+              <select
+                id="photo-pose"
+                value={pose}
+                onChange={(e) => setPose(e.target.value as PhotoPose)}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PHOTO_POSE_KEYS.map(key => <option key={key} value={key}>{PHOTO_POSES[key]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="photo-file" className="block text-sm font-medium text-gray-400 mb-2">Foto</label>
+              <input
+                type="file"
+                id="photo-file"
+                ref={fileInputRef}
+                accept="image/*"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-gray-800 file:text-white"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isUploading}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-md cursor-pointer transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Subiendo...' : 'Subir foto'}
+            </button>
+          </form>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : error ? (
+        <p className="text-red-400">{error}</p>
+      ) : days.length === 0 ? (
+        <p className="text-gray-400">
+          {readOnly ? 'Todavía no ha subido fotos de progreso.' : 'Todavía no has subido fotos de progreso.'}
+        </p>
+      ) : (
+        <>
+          {days.length > 1 && (
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-4">Comparar</h3>
+              <PhotoComparison days={days} />
+            </div>
+          )}
+
+          <div className="space-y-6">
+            <h3 className="text-lg font-semibold text-white">Galería</h3>
+            {days.map(day => (
+              <div key={day.date}>
+                <p className="text-sm font-medium text-gray-300 mb-2">{formatDay(day.date)}</p>
+                <div className="grid grid-cols-3 gap-3 max-w-2xl">
+                  {PHOTO_POSE_KEYS.map(key => {
+                    const photo = day.photos[key];
+
+                    return (
+                      <div key={key}>
+                        {photo?.url ? (
+                          <a href={photo.url} target="_blank" rel="noopener noreferrer" className="block relative aspect-[3/4] rounded-lg overflow-hidden bg-gray-800">
+                            <Image src={photo.url} alt={`${PHOTO_POSES[key]} ${formatDay(day.date)}`} fill unoptimized className="object-cover" />
+                          </a>
+                        ) : (
+                          <div className="aspect-[3/4] rounded-lg bg-gray-800 flex items-center justify-center text-xs text-gray-500">
+                            Sin foto
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between mt-1 text-xs">
+                          <span className="text-gray-400">{PHOTO_POSES[key]}</span>
+                          {photo && !readOnly && (
+                            <button
+                              onClick={() => handleRemove(photo)}
+                              className="text-red-500 hover:text-red-400 cursor-pointer"
+                            >
+                              Eliminar
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import LoadPrescriptionInput from "@/components/LoadPrescriptionInput";
+import { LoadPrescription } from "@/lib/loadPrescription";
+import { SetPrescription, targetReps } from "@/lib/setPrescription";
+import { compactOverrides, EMPTY_OVERRIDE, RoundOverride } from "@/lib/setVariation";
+
+interface RoundOverridesInputProps {
+  rounds: number;
+  base: SetPrescription & { load: LoadPrescription };
+  value: RoundOverride[] | null;
+  onChange: (value: RoundOverride[] | null) => void;
+}
+
+// One row per round to change reps and load from the instance values (pyramids, drop sets)
+export default function RoundOverridesInput({ rounds, base, value, onChange }: RoundOverridesInputProps) {
+  const overrides = value || [];
+  const hasReps = targetReps(base) !== null;
+
+  const updateRound = (index: number, changes: Partial<RoundOverride>) => {
+    const next = Array.from({ length: rounds }, (_, i) => overrides[i] || EMPTY_OVERRIDE);
+    next[index] = { ...next[index], ...changes };
+    onChange(compactOverrides(next, rounds));
+  };
+
+  const handleRepsChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const reps = parseInt(e.target.value);
+    if (e.target.value === '') {
+      updateRound(index, { reps: null });
+    } else if (!isNaN(reps) && reps > 0) {
+      updateRound(index, { reps });
+    }
+  };
+
+  // Picking the instance load again clears the override for that round
+  const handleLoadChange = (index: number) => (load: LoadPrescription) => {
+    updateRound(index, { load: JSON.stringify(load) === JSON.stringify(base.load) ? null : load });
+  };
+
+  return (
+    <div className="space-y-2">
+      {Array.from({ length: rounds }, (_, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-8 text-xs text-gray-400">R{index + 1}</span>
+          {hasReps && (
+            <input
+              type="number"
+              value={overrides[index]?.reps ?? ''}
+              onChange={handleRepsChange(index)}
+              min="1"
+              placeholder={base.reps.toString()}
+              className="w-16 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={`Repeticiones ronda ${index + 1}`}
+            />
+          )}
+          <div className="flex-1">
+            <LoadPrescriptionInput
+              size="sm"
+              value={overrides[index]?.load ?? base.load}
+              onChange={handleLoadChange(index)}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
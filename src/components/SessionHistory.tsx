@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Workout } from "@/hooks/useWorkouts";
+import { WorkoutSession, SetLog } from "@/hooks/useWorkoutSessions";
+import { formatLoad } from "@/lib/loadPrescription";
+import { formatPrescription, targetReps } from "@/lib/setPrescription";
+import { forRound } from "@/lib/setVariation";
+
+interface SessionHistoryProps {
+  workout: Workout;
+  sessions: WorkoutSession[];
+}
+
+export default function SessionHistory({ workout, sessions }: SessionHistoryProps) {
+  const [expandedSessionId, setExpandedSessionId] = useState<number | null>(null);
+
+  // Format date and time for display
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatDuration = (session: WorkoutSession) => {
+    if (!session.finished_at) return 'En curso';
+    const minutes = Math.round((new Date(session.finished_at).getTime() - new Date(session.started_at).getTime()) / 60000);
+    return `${minutes} min`;
+  };
+
+  const formatActual = (log?: SetLog) => {
+    if (!log) return '—';
+    const parts = [];
+    if (log.reps !== null) parts.push(`${log.reps} reps`);
+    if (log.weight !== null) parts.push(`${log.weight} kg`);
+    if (log.rpe !== null) parts.push(`RPE ${log.rpe}`);
+    return parts.length > 0 ? parts.join(' · ') : 'Hecho';
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <div className="bg-gray-900 rounded-lg p-6 text-center">
+        <p className="text-gray-400">Todavía no hay sesiones registradas para esta rutina.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sessions.map(session => {
+        const logs = session.set_logs || [];
+        const isExpanded = expandedSessionId === session.id;
+
+        return (
+          <div key={session.id} className="border border-gray-700 rounded-lg overflow-hidden bg-gray-900">
+            <button
+              onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+              className="w-full flex justify-between items-center p-4 text-left focus:outline-none cursor-pointer"
+            >
+              <div>
+                <p className="text-white font-medium">
+                  {session.athlete?.name || session.athlete?.email || 'Atleta'}
+                </p>
+                <p className="text-sm text-gray-400">
+                  {formatDateTime(session.started_at)} · {formatDuration(session)} · {logs.length} {logs.length === 1 ? 'serie' : 'series'}
+                </p>
+              </div>
+              <svg
+                className={`w-5 h-5 text-gray-400 transform transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+
+            {isExpanded && (
+              <div className="p-4 border-t border-gray-800 overflow-x-auto">
+                {session.notes && (
+                  <p className="mb-4 text-sm text-gray-300 italic">&ldquo;{session.notes}&rdquo;</p>
+                )}
+                <table className="w-full text-sm text-left">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-800">
+                      <th className="py-2 pr-4 font-medium">Ejercicio</th>
+                      <th className="py-2 pr-4 font-medium">Ronda</th>
+                      <th className="py-2 pr-4 font-medium">Prescrito</th>
+                      <th className="py-2 pr-4 font-medium">Realizado</th>
+                      <th className="py-2 font-medium">Notas</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {(workout.blocks || []).flatMap(block =>
+                      Array.from({ length: block.rounds }, (_, roundIndex) => roundIndex + 1).flatMap(round =>
+                        (block.exercise_instances || []).map(baseInstance => {
+                          const instance = forRound(baseInstance, round);
+                          const log = logs.find(l => l.exercise_instance_id === instance.id && l.round === round);
+                          const target = targetReps(instance);
+                          const missedReps = target !== null && log?.reps !== null && log?.reps !== undefined && log.reps < target;
+
+                          return (
+                            <tr key={`${instance.id}-${round}`} className="text-gray-300">
+                              <td className="py-2 pr-4">
+                                <span className="text-white">{instance.exercise?.name || 'Unknown Exercise'}</span>
+                                <span className="block text-xs text-gray-500">{block.name}</span>
+                              </td>
+                              <td className="py-2 pr-4">{round}/{block.rounds}</td>
+                              <td className="py-2 pr-4">
+                                {formatPrescription(instance)}{formatLoad(instance.load) ? ` · ${formatLoad(instance.load)}` : ''}
+                              </td>
+                              <td className={`py-2 pr-4 ${!log ? 'text-gray-500' : missedReps ? 'text-yellow-400' : 'text-green-400'}`}>
+                                {formatActual(log)}
+                              </td>
+                              <td className="py-2 text-gray-400">{log?.notes || ''}</td>
+                            </tr>
+                          );
+                        })
+                      )
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import {
+  defaultPrescription,
+  PRESCRIPTION_TYPES,
+  PrescriptionType,
+  SetPrescription
+} from "@/lib/setPrescription";
+
+interface SetPrescriptionInputProps {
+  id?: string;
+  value: SetPrescription;
+  onChange: (value: SetPrescription) => void;
+  size?: 'md' | 'sm';
+}
+
+// Prescription type selector plus the numeric fields that type needs
+export default function SetPrescriptionInput({ id, value, onChange, size = 'md' }: SetPrescriptionInputProps) {
+  const fieldClassName = size === 'md'
+    ? "px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    : "px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  // Only accept whole numbers at or above the minimum, like the other builder inputs
+  const numberHandler = (field: 'reps' | 'reps_max' | 'duration_seconds', min: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const amount = parseInt(e.target.value);
+      if (!isNaN(amount) && amount >= min) {
+        onChange({ ...value, [field]: amount });
+      }
+    };
+
+  const handleDistanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const meters = parseFloat(e.target.value);
+    if (!isNaN(meters) && meters > 0) {
+      onChange({ ...value, distance_meters: meters });
+    }
+  };
+
+  const handleTimeCapChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seconds = parseInt(e.target.value);
+    onChange({ ...value, duration_seconds: !isNaN(seconds) && seconds > 0 ? seconds : null });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        id={id}
+        value={value.prescription_type}
+        onChange={(e) => onChange(defaultPrescription(e.target.value as PrescriptionType, value.reps))}
+        className={`${fieldClassName} min-w-0 flex-1`}
+        aria-label="Tipo de prescripción"
+      >
+        {(Object.keys(PRESCRIPTION_TYPES) as PrescriptionType[]).map(type => (
+          <option key={type} value={type}>{PRESCRIPTION_TYPES[type]}</option>
+        ))}
+      </select>
+
+      {(value.prescription_type === 'reps' || value.prescription_type === 'reps_range') && (
+        <input
+          type="number"
+          value={value.reps}
+          onChange={numberHandler('reps', 1)}
+          min="1"
+          className={`${fieldClassName} w-16`}
+          aria-label={value.prescription_type === 'reps' ? 'Repeticiones' : 'Repeticiones mínimas'}
+        />
+      )}
+
+      {value.prescription_type === 'reps_range' && (
+        <>
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            value={value.reps_max ?? value.reps}
+            onChange={numberHandler('reps_max', value.reps)}
+            min={value.reps}
+            className={`${fieldClassName} w-16`}
+            aria-label="Repeticiones máximas"
+          />
+        </>
+      )}
+
+      {value.prescription_type === 'duration' && (
+        <>
+          <input
+            type="number"
+            value={value.duration_seconds ?? ''}
+            onChange={numberHandler('duration_seconds', 1)}
+            min="1"
+            className={`${fieldClassName} w-20`}
+            aria-label="Duración en segundos"
+          />
+          <span className="text-sm text-gray-400">s</span>
+        </>
+      )}
+
+      {value.prescription_type === 'distance' && (
+        <>
+          <input
+            type="number"
+            value={value.distance_meters ?? ''}
+            onChange={handleDistanceChange}
+            min="1"
+            className={`${fieldClassName} w-20`}
+            aria-label="Distancia en metros"
+          />
+          <span className="text-sm text-gray-400">m</span>
+        </>
+      )}
+
+      {value.prescription_type === 'amrap' && (
+        <>
+          <input
+            type="number"
+            value={value.duration_seconds ?? ''}
+            onChange={handleTimeCapChange}
+            min="1"
+            placeholder="Sin límite"
+            className={`${fieldClassName} w-24`}
+            aria-label="Tiempo límite en segundos"
+          />
+          <span className="text-sm text-gray-400">s</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { usePrograms } from "@/hooks/usePrograms";
+import WorkoutSummaryStats from "@/components/WorkoutSummaryStats";
+import { applyProgression, DAYS_OF_WEEK, findProgramDay, programPosition } from "@/lib/programs";
+
+// Today's session for every program currently running for the user
+export default function TodayWorkout() {
+  const { assignments, loading } = usePrograms();
+
+  const active = assignments.flatMap(assignment => {
+    if (!assignment.program) return [];
+    const position = programPosition(assignment.start_date, assignment.program.weeks);
+    return position ? [{ assignment, program: assignment.program, position }] : [];
+  });
+
+  if (loading || active.length === 0) return null;
+
+  return (
+    <section className="w-full mb-10 space-y-4 text-left">
+      <h2 className="text-2xl font-semibold text-white">Entrenamiento de hoy</h2>
+      {active.map(({ assignment, program, position }) => {
+        const day = findProgramDay(program, position);
+        const workout = day?.workout && applyProgression(day.workout, program, position.week);
+
+        return (
+          <div key={assignment.id} className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+            <p className="text-sm text-gray-400 mb-1">
+              <Link href={`/programs/${program.id}`} className="hover:text-white">{program.name}</Link>
+              {' · '}Semana {position.week}, {DAYS_OF_WEEK[position.day_of_week]}
+            </p>
+            {workout ? (
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-white">{workout.name}</h3>
+                  <WorkoutSummaryStats workout={workout} className="mt-2" />
+                </div>
+                <Link
+                  href={`/workouts/${workout.id}/play?program=${program.id}&week=${position.week}`}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors"
+                >
+                  Comenzar
+                </Link>
+              </div>
+            ) : (
+              <p className="text-white">Hoy es día de descanso.</p>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
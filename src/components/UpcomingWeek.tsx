@@ -0,0 +1,59 @@
+import Link from "next/link";
+import { SCHEDULE_STATUSES, useScheduledWorkouts } from "@/hooks/useScheduledWorkouts";
+import { addDays } from "@/lib/calendar";
+import { parseDateOnly, toDateOnly } from "@/lib/programs";
+
+// The next seven days of the current user's calendar
+export default function UpcomingWeek() {
+  const today = new Date();
+  const from = toDateOnly(today);
+  const to = toDateOnly(addDays(today, 6));
+  const { scheduled, loading } = useScheduledWorkouts(from, to);
+
+  if (loading) return null;
+
+  return (
+    <section className="w-full mt-10 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-white">Próximos 7 días</h2>
+        <Link href="/calendar" className="text-sm text-blue-400 hover:text-blue-300">
+          Ver calendario
+        </Link>
+      </div>
+      {scheduled.length === 0 ? (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 text-gray-400">
+          No tienes rutinas planificadas para esta semana.
+        </div>
+      ) : (
+        <ul className="bg-gray-900 border border-gray-800 rounded-lg divide-y divide-gray-800">
+          {scheduled.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="text-sm text-gray-400 capitalize">
+                  {entry.scheduled_for === from
+                    ? 'Hoy'
+                    : parseDateOnly(entry.scheduled_for).toLocaleDateString('es', { weekday: 'long', day: 'numeric', month: 'short' })}
+                </p>
+                <Link href={`/workouts/${entry.workout_id}`} className="text-white font-medium hover:text-blue-400">
+                  {entry.workout?.name}
+                </Link>
+              </div>
+              {entry.status === 'planned' ? (
+                <Link
+                  href={`/workouts/${entry.workout_id}/play`}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm"
+                >
+                  Comenzar
+                </Link>
+              ) : (
+                <span className={`text-sm ${entry.status === 'completed' ? 'text-green-400' : 'text-gray-500'}`}>
+                  {SCHEDULE_STATUSES[entry.status]}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,1138 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import Header from "@/components/Header";
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { Exercise } from '@/components/ExerciseCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/useRole';
+import ExerciseFilterBar from '@/components/ExerciseFilterBar';
+import { EMPTY_FILTERS, ExerciseFilters, matchesFilters } from '@/lib/exerciseTaxonomy';
+import { moveItem } from '@/lib/utils';
+import { copyDraftBlock, copyDraftInstance, DraftBlock, DraftExerciseInstance, DraftWorkout } from '@/lib/workoutRows';
+import { formatLoad, LoadPrescription, NO_LOAD } from '@/lib/loadPrescription';
+import LoadPrescriptionInput from '@/components/LoadPrescriptionInput';
+import SetPrescriptionInput from '@/components/SetPrescriptionInput';
+import { defaultPrescription, formatPrescription, getPrescription, SetPrescription } from '@/lib/setPrescription';
+import BlockSettingsInput from '@/components/BlockSettingsInput';
+import { BlockSettings, defaultBlockSettings, formatBlockType, getBlockSettings, roundsLabel } from '@/lib/blockTypes';
+import RoundOverridesInput from '@/components/RoundOverridesInput';
+import { hasRoundOverrides, normalizeTempo, RoundOverride, TEMPO_PATTERN } from '@/lib/setVariation';
+import WorkoutSummaryStats from '@/components/WorkoutSummaryStats';
+
+// Lists that can be reordered: the workout's blocks, the instances of an
+// added block (`block-<index>`) or the instances of the block being built
+type ReorderList = 'blocks' | 'current' | `block-${number}`;
+
+// Keyboard-accessible alternative to dragging
+function MoveButtons({ index, count, onMove }: { index: number; count: number; onMove: (from: number, to: number) => void }) {
+  return (
+    <div className="flex flex-col mr-3">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onMove(index, index - 1);
+        }}
+        disabled={index === 0}
+        className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer rounded p-0.5 hover:bg-gray-700 transition-colors"
+        aria-label="Mover arriba"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onMove(index, index + 1);
+        }}
+        disabled={index === count - 1}
+        className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer rounded p-0.5 hover:bg-gray-700 transition-colors"
+        aria-label="Mover abajo"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
+interface WorkoutBuilderProps {
+  title: string;
+  initialWorkout?: DraftWorkout;
+  onSubmit: (workout: DraftWorkout) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function WorkoutBuilder({ title, initialWorkout, onSubmit, onCancel }: WorkoutBuilderProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  // Workout form state
+  const [workout, setWorkout] = useState<DraftWorkout>(initialWorkout || {
+    name: '',
+    blocks: []
+  });
+  
+  // State for the block being currently edited
+  const [currentBlock, setCurrentBlock] = useState<DraftBlock>({
+    name: '',
+    rounds: 1,
+    round_rest_seconds: null,
+    ...defaultBlockSettings('straight'),
+    exercise_instances: []
+  });
+  
+  // State for the exercise instance being currently edited
+  const [currentExerciseInstance, setCurrentExerciseInstance] = useState<DraftExerciseInstance>({
+    ...defaultPrescription('reps', 10),
+    rest: 30,
+    exercise_id: 0,
+    load: NO_LOAD,
+    tempo: null,
+    round_overrides: null
+  });
+  
+  // Taxonomy filters for the exercise select
+  const [exerciseFilters, setExerciseFilters] = useState<ExerciseFilters>(EMPTY_FILTERS);
+  
+  // State to track which accordion sections are expanded
+  const [expandedBlockIndex, setExpandedBlockIndex] = useState<number | null>(null);
+  
+  // Item currently being dragged
+  const [dragSource, setDragSource] = useState<{ list: ReorderList; index: number } | null>(null);
+  
+  // Redirect users who can't build workouts to home page
+  useEffect(() => {
+    if (!user || permissionsLoading) return;
+    
+    if (!can('create_workout')) {
+      router.push('/');
+    }
+  }, [user, permissionsLoading, can, router]);
+  
+  // Fetch exercises on component mount
+  useEffect(() => {
+    const fetchExercises = async () => {
+      try {
+        // Only fetch exercises if the user is logged in
+        if (!user?.id) {
+          return;
+        }
+        
+        setIsLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('exercises')
+          .select('*')
+          .eq('created_by', user.id) // Only fetch exercises created by this trainer
+          .order('name');
+        
+        if (error) throw new Error(`Error al obtener ejercicios: ${error.message}`);
+        
+        setExercises(data || []);
+      } catch (err) {
+        console.error('Error fetching exercises:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar ejercicios');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    
+    fetchExercises();
+  }, [user]); // Add user as a dependency to refetch when user changes
+  
+  // Keep the selected exercise in the list even when the filters would hide it
+  const filteredExercises = exercises.filter(exercise =>
+    exercise.id === currentExerciseInstance.exercise_id || matchesFilters(exercise, exerciseFilters)
+  );
+  
+  // Handle workout name change
+  const handleWorkoutNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setWorkout({ ...workout, name: e.target.value });
+  };
+  
+  // Handle current block name change
+  const handleBlockNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCurrentBlock({ ...currentBlock, name: e.target.value });
+  };
+  
+  // Handle current block rounds change
+  const handleBlockRoundsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const rounds = parseInt(e.target.value);
+    if (!isNaN(rounds) && rounds > 0) {
+      setCurrentBlock({ ...currentBlock, rounds });
+    }
+  };
+  
+  // Handle current block rest between rounds change, blank uses the exercises' rest
+  const handleBlockRoundRestChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seconds = parseInt(e.target.value);
+    if (e.target.value === '') {
+      setCurrentBlock({ ...currentBlock, round_rest_seconds: null });
+    } else if (!isNaN(seconds) && seconds >= 0) {
+      setCurrentBlock({ ...currentBlock, round_rest_seconds: seconds });
+    }
+  };
+  
+  // Handle current block type and timing change
+  const handleBlockSettingsChange = (settings: BlockSettings) => {
+    setCurrentBlock({ ...currentBlock, ...settings });
+  };
+  
+  // Add current block to workout
+  const handleAddBlock = () => {
+    if (!currentBlock.name.trim() || currentBlock.exercise_instances.length === 0) {
+      alert('Por favor, añade un nombre de bloque y al menos una instancia de ejercicio');
+      return;
+    }
+    
+    setWorkout({
+      ...workout,
+      blocks: [...workout.blocks, { ...currentBlock }]
+    });
+    
+    // Reset current block
+    setCurrentBlock({
+      name: '',
+      rounds: 1,
+      round_rest_seconds: null,
+      ...defaultBlockSettings('straight'),
+      exercise_instances: []
+    });
+    
+    // Expand the newly added block
+    setExpandedBlockIndex(workout.blocks.length);
+  };
+  
+  // Handle exercise selection for current exercise instance
+  const handleExerciseSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const exercise_id = parseInt(e.target.value);
+    if (!isNaN(exercise_id)) {
+      setCurrentExerciseInstance({ ...currentExerciseInstance, exercise_id });
+    }
+  };
+  
+  // Handle prescription change (reps, range, duration...) for current exercise instance
+  const handlePrescriptionChange = (prescription: SetPrescription) => {
+    setCurrentExerciseInstance({ ...currentExerciseInstance, ...prescription });
+  };
+  
+  // Handle rest change for current exercise instance
+  const handleRestChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const rest = parseInt(e.target.value);
+    if (!isNaN(rest) && rest >= 0) {
+      setCurrentExerciseInstance({ ...currentExerciseInstance, rest });
+    }
+  };
+  
+  // Handle tempo change for current exercise instance
+  const handleTempoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCurrentExerciseInstance({ ...currentExerciseInstance, tempo: normalizeTempo(e.target.value) });
+  };
+  
+  // Handle load prescription change for current exercise instance
+  const handleLoadChange = (load: LoadPrescription) => {
+    setCurrentExerciseInstance({ ...currentExerciseInstance, load });
+  };
+  
+  // Handle per-round reps and load for current exercise instance
+  const handleRoundOverridesChange = (round_overrides: RoundOverride[] | null) => {
+    setCurrentExerciseInstance({ ...currentExerciseInstance, round_overrides });
+  };
+  
+  // Add current exercise instance to current block
+  const handleAddExerciseInstance = () => {
+    if (currentExerciseInstance.exercise_id === 0) {
+      alert('Por favor, selecciona un ejercicio');
+      return;
+    }
+    
+    if (currentExerciseInstance.tempo && !TEMPO_PATTERN.test(currentExerciseInstance.tempo)) {
+      alert('El tempo debe tener el formato 3-1-1-0');
+      return;
+    }
+    
+    // Find selected exercise to include in the instance
+    const selectedExercise = exercises.find(ex => ex.id === currentExerciseInstance.exercise_id);
+    
+    setCurrentBlock({
+      ...currentBlock,
+      exercise_instances: [
+        ...currentBlock.exercise_instances, 
+        { 
+          ...currentExerciseInstance,
+          exercise: selectedExercise
+        }
+      ]
+    });
+    
+    // Reset current exercise instance except exercise_id to make it easier to add multiple instances
+    setCurrentExerciseInstance({
+      ...defaultPrescription(currentExerciseInstance.prescription_type, 10),
+      rest: 30,
+      exercise_id: currentExerciseInstance.exercise_id,
+      load: currentExerciseInstance.load,
+      tempo: currentExerciseInstance.tempo,
+      round_overrides: null
+    });
+  };
+  
+  // Remove exercise instance from current block
+  const handleRemoveExerciseInstance = (index: number) => {
+    setCurrentBlock({
+      ...currentBlock,
+      exercise_instances: currentBlock.exercise_instances.filter((_, i) => i !== index)
+    });
+  };
+  
+  // Remove block from workout
+  const handleRemoveBlock = (index: number) => {
+    setWorkout({
+      ...workout,
+      blocks: workout.blocks.filter((_, i) => i !== index)
+    });
+    
+    // Update expanded block index if necessary
+    if (expandedBlockIndex === index) {
+      setExpandedBlockIndex(null);
+    } else if (expandedBlockIndex !== null && expandedBlockIndex > index) {
+      setExpandedBlockIndex(expandedBlockIndex - 1);
+    }
+  };
+  
+  // Inline edits of blocks already added to the workout
+  const handleUpdateBlock = (blockIndex: number, changes: Partial<DraftBlock>) => {
+    setWorkout({
+      ...workout,
+      blocks: workout.blocks.map((block, i) => i === blockIndex ? { ...block, ...changes } : block)
+    });
+  };
+  
+  const handleUpdateBlockInstance = (blockIndex: number, instanceIndex: number, changes: Partial<DraftExerciseInstance>) => {
+    // Keep the joined exercise in sync when a different one is picked
+    const exerciseChanges = changes.exercise_id !== undefined
+      ? { exercise: exercises.find(ex => ex.id === changes.exercise_id) }
+      : {};
+    
+    const block = workout.blocks[blockIndex];
+    handleUpdateBlock(blockIndex, {
+      exercise_instances: block.exercise_instances.map((instance, i) =>
+        i === instanceIndex ? { ...instance, ...changes, ...exerciseChanges } : instance
+      )
+    });
+  };
+  
+  // Insert a copy right after the original so progressive blocks are quick to build
+  const handleDuplicateBlock = (blockIndex: number) => {
+    const blocks = [...workout.blocks];
+    blocks.splice(blockIndex + 1, 0, copyDraftBlock(workout.blocks[blockIndex]));
+    setWorkout({ ...workout, blocks });
+    setExpandedBlockIndex(blockIndex + 1);
+  };
+  
+  const handleDuplicateBlockInstance = (blockIndex: number, instanceIndex: number) => {
+    const instances = [...workout.blocks[blockIndex].exercise_instances];
+    instances.splice(instanceIndex + 1, 0, copyDraftInstance(instances[instanceIndex]));
+    handleUpdateBlock(blockIndex, { exercise_instances: instances });
+  };
+  
+  const handleRemoveBlockInstance = (blockIndex: number, instanceIndex: number) => {
+    const instances = workout.blocks[blockIndex].exercise_instances;
+    if (instances.length === 1) {
+      alert('Un bloque debe tener al menos un ejercicio. Elimina el bloque si ya no lo necesitas.');
+      return;
+    }
+    handleUpdateBlock(blockIndex, {
+      exercise_instances: instances.filter((_, i) => i !== instanceIndex)
+    });
+  };
+  
+  const handleDuplicateExerciseInstance = (index: number) => {
+    const instances = [...currentBlock.exercise_instances];
+    instances.splice(index + 1, 0, copyDraftInstance(instances[index]));
+    setCurrentBlock({ ...currentBlock, exercise_instances: instances });
+  };
+  
+  // Toggle block expansion
+  const toggleBlockExpansion = (index: number) => {
+    setExpandedBlockIndex(expandedBlockIndex === index ? null : index);
+  };
+  
+  // Move an item within one of the reorderable lists
+  const handleReorder = (list: ReorderList, from: number, to: number) => {
+    if (from === to) return;
+    
+    if (list === 'blocks') {
+      setWorkout({ ...workout, blocks: moveItem(workout.blocks, from, to) });
+      
+      // Keep the same block expanded after it moves
+      if (expandedBlockIndex !== null) {
+        const indices = moveItem(workout.blocks.map((_, i) => i), from, to);
+        setExpandedBlockIndex(indices.indexOf(expandedBlockIndex));
+      }
+    } else if (list === 'current') {
+      setCurrentBlock({
+        ...currentBlock,
+        exercise_instances: moveItem(currentBlock.exercise_instances, from, to)
+      });
+    } else {
+      const blockIndex = parseInt(list.replace('block-', ''));
+      setWorkout({
+        ...workout,
+        blocks: workout.blocks.map((block, i) => i === blockIndex
+          ? { ...block, exercise_instances: moveItem(block.exercise_instances, from, to) }
+          : block
+        )
+      });
+    }
+  };
+  
+  // HTML5 drag-and-drop props for a reorderable item
+  const dragProps = (list: ReorderList, index: number) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = 'move';
+      setDragSource({ list, index });
+    },
+    onDragOver: (e: React.DragEvent) => {
+      // Only accept drops coming from the same list
+      if (dragSource?.list === list) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (dragSource?.list === list) {
+        handleReorder(list, dragSource.index, index);
+      }
+      setDragSource(null);
+    },
+    onDragEnd: () => setDragSource(null)
+  });
+  
+  const isDragging = (list: ReorderList, index: number) =>
+    dragSource?.list === list && dragSource.index === index;
+  
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!user) {
+      alert('You must be logged in to save a workout');
+      return;
+    }
+    
+    if (!workout.name.trim()) {
+      alert('Please enter a workout name');
+      return;
+    }
+    
+    if (workout.blocks.length === 0) {
+      alert('Please add at least one block');
+      return;
+    }
+    
+    if (workout.blocks.some(block => !block.name.trim())) {
+      alert('Please enter a name for every block');
+      return;
+    }
+    
+    if (workout.blocks.some(block => block.exercise_instances.some(instance => instance.tempo && !TEMPO_PATTERN.test(instance.tempo)))) {
+      alert('El tempo debe tener el formato 3-1-1-0');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    
+    try {
+      await onSubmit(workout);
+    } catch (err) {
+      console.error('Error saving workout:', err);
+      alert(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  if (isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </>
+    );
+  }
+  
+  if (error) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-black">
+          <div className="text-red-500">Error: {error}</div>
+        </div>
+      </>
+    );
+  }
+  
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen p-8 bg-black">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8 flex items-center">
+            <button 
+              onClick={onCancel}
+              className="mr-4 p-2 rounded-full hover:bg-gray-800 transition-colors cursor-pointer"
+              aria-label="Back to workouts"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+            <h1 className="text-3xl font-bold text-white">{title}</h1>
+          </div>
+          
+          <form onSubmit={handleSubmit} className="space-y-8">
+            {/* Workout Name Section */}
+            <div className="bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800">
+              <h2 className="text-2xl font-semibold text-white mb-6 flex items-center">
+                <svg className="w-6 h-6 mr-2 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Detalles de la Rutina
+              </h2>
+              <div>
+                <label htmlFor="workout-name" className="block text-sm font-medium text-gray-300 mb-2">
+                  Nombre de la Rutina
+                </label>
+                <input
+                  type="text"
+                  id="workout-name"
+                  value={workout.name}
+                  onChange={handleWorkoutNameChange}
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors text-lg"
+                  placeholder="Ingresa el nombre de la rutina"
+                  required
+                />
+                {/* Live estimate, counting the block being built once it has exercises */}
+                <WorkoutSummaryStats
+                  className="mt-3"
+                  workout={{
+                    blocks: currentBlock.exercise_instances.length > 0
+                      ? [...workout.blocks, currentBlock]
+                      : workout.blocks
+                  }}
+                />
+              </div>
+            </div>
+            
+            {/* Added Blocks Section */}
+            {workout.blocks.length > 0 && (
+              <div className="bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800">
+                <h2 className="text-2xl font-semibold text-white mb-6 flex items-center">
+                  <svg className="w-6 h-6 mr-2 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                  </svg>
+                  Bloques de Rutina ({workout.blocks.length})
+                </h2>
+                <div className="space-y-5">
+                  {workout.blocks.map((block, blockIndex) => (
+                    <div 
+                      key={block.id ?? `new-${blockIndex}`} 
+                      {...dragProps('blocks', blockIndex)}
+                      className={`border border-gray-800 rounded-lg overflow-hidden shadow-md transform transition-transform hover:scale-[1.01] ${isDragging('blocks', blockIndex) ? 'opacity-50' : ''}`}
+                    >
+                      <div 
+                        className="flex justify-between items-center p-5 bg-gradient-to-r from-gray-800 to-gray-900 cursor-pointer"
+                        onClick={() => toggleBlockExpansion(blockIndex)}
+                      >
+                        <div className="flex items-center">
+                          <MoveButtons index={blockIndex} count={workout.blocks.length} onMove={(from, to) => handleReorder('blocks', from, to)} />
+                          <h3 className="text-lg font-medium text-white">{block.name}</h3>
+                          <span className="ml-3 bg-blue-900 text-blue-200 text-xs px-3 py-1 rounded-full font-medium">
+                            {block.rounds} {block.rounds === 1 ? 'ronda' : 'rondas'}
+                          </span>
+                          <span className="ml-3 bg-gray-700 text-gray-200 text-xs px-3 py-1 rounded-full font-medium">
+                            {formatBlockType(block)}
+                          </span>
+                          <span className="ml-3 text-gray-400 text-sm">
+                            {block.exercise_instances.length} {block.exercise_instances.length === 1 ? 'ejercicio' : 'ejercicios'}
+                          </span>
+                        </div>
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDuplicateBlock(blockIndex);
+                            }}
+                            className="text-gray-300 hover:text-white mr-1 cursor-pointer rounded-full p-1 hover:bg-gray-700 transition-colors"
+                            aria-label="Duplicar bloque"
+                            title="Duplicar bloque"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRemoveBlock(blockIndex);
+                            }}
+                            className="text-red-500 hover:text-red-400 mr-3 cursor-pointer rounded-full p-1 hover:bg-gray-700 transition-colors"
+                            aria-label="Eliminar bloque"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                          <div className="p-1 rounded-full hover:bg-gray-700 transition-colors">
+                            <svg 
+                              className={`w-5 h-5 text-gray-300 transform transition-transform ${expandedBlockIndex === blockIndex ? 'rotate-180' : ''}`} 
+                              fill="none" 
+                              stroke="currentColor" 
+                              viewBox="0 0 24 24" 
+                              xmlns="http://www.w3.org/2000/svg"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                          </div>
+                        </div>
+                      </div>
+                      
+                      {expandedBlockIndex === blockIndex && (
+                        <div className="p-5 bg-gray-900 border-t border-gray-800">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-5">
+                            <div>
+                              <label htmlFor={`block-${blockIndex}-name`} className="block text-sm font-medium text-gray-300 mb-1">
+                                Nombre del Bloque
+                              </label>
+                              <input
+                                type="text"
+                                id={`block-${blockIndex}-name`}
+                                value={block.name}
+                                onChange={(e) => handleUpdateBlock(blockIndex, { name: e.target.value })}
+                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label htmlFor={`block-${blockIndex}-rounds`} className="block text-sm font-medium text-gray-300 mb-1">
+                                {roundsLabel(block.block_type)}
+                              </label>
+                              <input
+                                type="number"
+                                id={`block-${blockIndex}-rounds`}
+                                value={block.rounds}
+                                onChange={(e) => {
+                                  const rounds = parseInt(e.target.value);
+                                  if (!isNaN(rounds) && rounds > 0) handleUpdateBlock(blockIndex, { rounds });
+                                }}
+                                min="1"
+                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label htmlFor={`block-${blockIndex}-round-rest`} className="block text-sm font-medium text-gray-300 mb-1">
+                                Descanso entre rondas (s)
+                              </label>
+                              <input
+                                type="number"
+                                id={`block-${blockIndex}-round-rest`}
+                                value={block.round_rest_seconds ?? ''}
+                                onChange={(e) => {
+                                  const seconds = parseInt(e.target.value);
+                                  if (e.target.value === '') handleUpdateBlock(blockIndex, { round_rest_seconds: null });
+                                  else if (!isNaN(seconds) && seconds >= 0) handleUpdateBlock(blockIndex, { round_rest_seconds: seconds });
+                                }}
+                                min="0"
+                                placeholder="Igual al del ejercicio"
+                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div className="md:col-span-3">
+                              <label htmlFor={`block-${blockIndex}-type`} className="block text-sm font-medium text-gray-300 mb-1">
+                                Tipo de Bloque
+                              </label>
+                              <BlockSettingsInput
+                                id={`block-${blockIndex}-type`}
+                                value={getBlockSettings(block)}
+                                onChange={(settings) => handleUpdateBlock(blockIndex, settings)}
+                              />
+                            </div>
+                          </div>
+                          <div className="space-y-3">
+                            {block.exercise_instances.map((instance, instanceIndex) => (
+                              <div 
+                                key={instance.id ?? `new-${instanceIndex}`} 
+                                {...dragProps(`block-${blockIndex}`, instanceIndex)}
+                                className={`flex items-center p-3 bg-gray-800 rounded-lg hover:bg-gray-750 transition-colors cursor-move ${isDragging(`block-${blockIndex}`, instanceIndex) ? 'opacity-50' : ''}`}
+                              >
+                                <MoveButtons index={instanceIndex} count={block.exercise_instances.length} onMove={(from, to) => handleReorder(`block-${blockIndex}`, from, to)} />
+                                <div className="w-16 h-16 relative rounded-lg overflow-hidden mr-4 border border-gray-700 flex-shrink-0">
+                                  {instance.exercise?.image ? (
+                                    <Image
+                                      src={instance.exercise.image}
+                                      alt={instance.exercise.name}
+                                      fill
+                                      className="object-cover"
+                                    />
+                                  ) : (
+                                    <div className="w-full h-full bg-gray-700 flex items-center justify-center">
+                                      <span className="text-xs text-gray-400">No img</span>
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex-1 grid grid-cols-2 md:grid-cols-7 gap-3">
+                                  <select
+                                    value={instance.exercise_id}
+                                    onChange={(e) => handleUpdateBlockInstance(blockIndex, instanceIndex, { exercise_id: parseInt(e.target.value) })}
+                                    className="col-span-2 md:col-span-1 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    aria-label="Ejercicio"
+                                  >
+                                    {exercises.map(exercise => (
+                                      <option key={exercise.id} value={exercise.id}>
+                                        {exercise.name}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <div className="col-span-2">
+                                    <SetPrescriptionInput
+                                      size="sm"
+                                      value={getPrescription(instance)}
+                                      onChange={(prescription) => handleUpdateBlockInstance(blockIndex, instanceIndex, prescription)}
+                                    />
+                                  </div>
+                                  <label className="flex items-center text-xs text-gray-400">
+                                    <input
+                                      type="number"
+                                      value={instance.rest}
+                                      onChange={(e) => {
+                                        const rest = parseInt(e.target.value);
+                                        if (!isNaN(rest) && rest >= 0) handleUpdateBlockInstance(blockIndex, instanceIndex, { rest });
+                                      }}
+                                      min="0"
+                                      className="w-16 mr-1.5 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    s rest
+                                  </label>
+                                  <div className="col-span-2">
+                                    <LoadPrescriptionInput
+                                      size="sm"
+                                      value={instance.load}
+                                      onChange={(load) => handleUpdateBlockInstance(blockIndex, instanceIndex, { load })}
+                                    />
+                                  </div>
+                                  <input
+                                    type="text"
+                                    value={instance.tempo ?? ''}
+                                    onChange={(e) => handleUpdateBlockInstance(blockIndex, instanceIndex, { tempo: normalizeTempo(e.target.value) })}
+                                    placeholder="Tempo"
+                                    className={`px-2 py-1.5 bg-gray-700 border rounded-md text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 ${instance.tempo && !TEMPO_PATTERN.test(instance.tempo) ? 'border-red-500' : 'border-gray-600'}`}
+                                    aria-label="Tempo"
+                                  />
+                                  {block.rounds > 1 && (
+                                    <details className="col-span-2 md:col-span-7" open={hasRoundOverrides(instance)}>
+                                      <summary className="text-xs text-gray-400 cursor-pointer select-none">
+                                        Variación por ronda
+                                      </summary>
+                                      <div className="mt-2">
+                                        <RoundOverridesInput
+                                          rounds={block.rounds}
+                                          base={{ ...getPrescription(instance), load: instance.load }}
+                                          value={instance.round_overrides}
+                                          onChange={(round_overrides) => handleUpdateBlockInstance(blockIndex, instanceIndex, { round_overrides })}
+                                        />
+                                      </div>
+                                    </details>
+                                  )}
+                                </div>
+                                <div className="flex items-center ml-3">
+                                  <button
+                                    type="button"
+                                    onClick={() => handleDuplicateBlockInstance(blockIndex, instanceIndex)}
+                                    className="text-gray-300 hover:text-white cursor-pointer rounded-full p-1 hover:bg-gray-700 transition-colors"
+                                    aria-label="Duplicar ejercicio"
+                                    title="Duplicar ejercicio"
+                                  >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveBlockInstance(blockIndex, instanceIndex)}
+                                    className="text-red-500 hover:text-red-400 cursor-pointer rounded-full p-1 hover:bg-gray-700 transition-colors"
+                                    aria-label="Eliminar ejercicio"
+                                  >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {/* Add New Block Section */}
+            <div className="bg-gray-900 rounded-lg p-8 shadow-lg border border-gray-800">
+              <h2 className="text-2xl font-semibold text-white mb-6 flex items-center">
+                <svg className="w-6 h-6 mr-2 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Añadir Nuevo Bloque
+              </h2>
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label htmlFor="block-name" className="block text-sm font-medium text-gray-300 mb-2">
+                      Nombre del Bloque
+                    </label>
+                    <input
+                      type="text"
+                      id="block-name"
+                      value={currentBlock.name}
+                      onChange={handleBlockNameChange}
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Ingresa el nombre del bloque"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="block-rounds" className="block text-sm font-medium text-gray-300 mb-2">
+                      {roundsLabel(currentBlock.block_type)}
+                    </label>
+                    <input
+                      type="number"
+                      id="block-rounds"
+                      value={currentBlock.rounds}
+                      onChange={handleBlockRoundsChange}
+                      min="1"
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="block-round-rest" className="block text-sm font-medium text-gray-300 mb-2">
+                      Descanso entre rondas (s)
+                    </label>
+                    <input
+                      type="number"
+                      id="block-round-rest"
+                      value={currentBlock.round_rest_seconds ?? ''}
+                      onChange={handleBlockRoundRestChange}
+                      min="0"
+                      placeholder="Igual al del ejercicio"
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="md:col-span-3">
+                    <label htmlFor="block-type" className="block text-sm font-medium text-gray-300 mb-2">
+                      Tipo de Bloque
+                    </label>
+                    <BlockSettingsInput
+                      id="block-type"
+                      value={getBlockSettings(currentBlock)}
+                      onChange={handleBlockSettingsChange}
+                    />
+                  </div>
+                </div>
+                
+                {/* Exercise Instances Section */}
+                <div className="mt-6">
+                  <h3 className="text-xl font-medium text-white mb-4 flex items-center">
+                    <svg className="w-5 h-5 mr-2 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                    </svg>
+                    Instancias de Ejercicios
+                  </h3>
+                  
+                  {currentBlock.exercise_instances.length > 0 && (
+                    <div className="space-y-3 mb-6 max-h-80 overflow-y-auto pr-2 styled-scrollbar">
+                      {currentBlock.exercise_instances.map((instance, index) => (
+                        <div 
+                          key={index} 
+                          {...dragProps('current', index)}
+                          className={`flex items-center p-4 bg-gray-800 rounded-lg hover:bg-gray-750 transition-colors border border-gray-700 cursor-move ${isDragging('current', index) ? 'opacity-50' : ''}`}
+                        >
+                          <MoveButtons index={index} count={currentBlock.exercise_instances.length} onMove={(from, to) => handleReorder('current', from, to)} />
+                          <div className="w-16 h-16 relative rounded-lg overflow-hidden mr-4 border border-gray-700">
+                            {instance.exercise?.image ? (
+                              <Image
+                                src={instance.exercise.image}
+                                alt={instance.exercise.name}
+                                fill
+                                className="object-cover"
+                              />
+                            ) : (
+                              <div className="w-full h-full bg-gray-700 flex items-center justify-center">
+                                <span className="text-xs text-gray-400">No img</span>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex-1">
+                            <h4 className="text-white font-medium mb-2">{instance.exercise?.name}</h4>
+                            <div className="flex text-xs text-gray-400 mt-1">
+                              <span className="inline-flex items-center mr-3 bg-gray-700 px-2 py-0.5 rounded-full">
+                                <svg className="w-4 h-4 mr-1.5 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                                </svg>
+                                {formatPrescription(instance)}
+                              </span>
+                              <span className="inline-flex items-center mr-3 bg-gray-700 px-2 py-0.5 rounded-full">
+                                <svg className="w-4 h-4 mr-1.5 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                {instance.rest}s rest
+                              </span>
+                              <span className="inline-flex items-center bg-gray-700 px-2 py-0.5 rounded-full">
+                                <svg className="w-4 h-4 mr-1.5 text-purple-400" fill="currentColor" stroke="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                  <path d="M20.57 14.86L22 13.43 20.57 12 17 15.57 8.43 7 12 3.43 10.57 2 9.14 3.43 7.71 2 5.57 4.14 4.14 2.71 2.71 4.14 4.14 5.57 2 7.71 3.43 9.14 2 10.57 3.43 12 7 8.43 15.57 17 12 20.57 13.43 22 14.86 20.57 16.29 22 17.71 20.57 19.14 18.43 16.29 19.86 19.86 18.43 22 16.29 20.57z" />
+                                </svg>
+                                {formatLoad(instance.load) || 'Sin carga'}
+                              </span>
+                              {instance.tempo && (
+                                <span className="inline-flex items-center ml-3 bg-gray-700 px-2 py-0.5 rounded-full">
+                                  Tempo {instance.tempo}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleDuplicateExerciseInstance(index)}
+                            className="text-gray-300 hover:text-white cursor-pointer rounded-full p-1 mr-1 hover:bg-gray-700 transition-colors"
+                            aria-label="Duplicar ejercicio"
+                            title="Duplicar ejercicio"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveExerciseInstance(index)}
+                            className="text-red-500 hover:text-red-400 cursor-pointer rounded-full p-1 hover:bg-gray-700 transition-colors"
+                            aria-label="Remove exercise instance"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  
+                  <div className="bg-gradient-to-b from-gray-800 to-gray-850 p-6 rounded-lg border border-gray-700 shadow-inner">
+                    {exercises.length > 0 && (
+                      <div className="mb-5">
+                        <ExerciseFilterBar filters={exerciseFilters} onChange={setExerciseFilters} />
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-7 gap-5">
+                      <div>
+                        <label htmlFor="exercise-select" className="block text-sm font-medium text-gray-300 mb-2">
+                          Seleccionar Ejercicio
+                        </label>
+                        <select
+                          id="exercise-select"
+                          value={currentExerciseInstance.exercise_id}
+                          onChange={handleExerciseSelect}
+                          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none transition-colors"
+                          style={{ backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%239ca3af' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em", paddingRight: "2.5rem" }}
+                        >
+                          <option value="0" disabled>Selecciona un ejercicio</option>
+                          {exercises.length === 0 ? (
+                            <option value="0" disabled>No hay ejercicios disponibles - crea ejercicios primero</option>
+                          ) : filteredExercises.length > 0 ? (
+                            filteredExercises.map(exercise => (
+                              <option key={exercise.id} value={exercise.id}>
+                                {exercise.name}
+                              </option>
+                            ))
+                          ) : (
+                            <option value="0" disabled>Ningún ejercicio coincide con los filtros</option>
+                          )}
+                        </select>
+                      </div>
+                      <div className="md:col-span-2">
+                        <label htmlFor="prescription-input" className="block text-sm font-medium text-gray-300 mb-2">
+                          Prescripción
+                        </label>
+                        <SetPrescriptionInput
+                          id="prescription-input"
+                          value={getPrescription(currentExerciseInstance)}
+                          onChange={handlePrescriptionChange}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="rest-input" className="block text-sm font-medium text-gray-300 mb-2">
+                          Descanso (segundos)
+                        </label>
+                        <input
+                          type="number"
+                          id="rest-input"
+                          value={currentExerciseInstance.rest}
+                          onChange={handleRestChange}
+                          min="0"
+                          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label htmlFor="load-input" className="block text-sm font-medium text-gray-300 mb-2">
+                          Carga
+                        </label>
+                        <LoadPrescriptionInput
+                          id="load-input"
+                          value={currentExerciseInstance.load}
+                          onChange={handleLoadChange}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="tempo-input" className="block text-sm font-medium text-gray-300 mb-2">
+                          Tempo
+                        </label>
+                        <input
+                          type="text"
+                          id="tempo-input"
+                          value={currentExerciseInstance.tempo ?? ''}
+                          onChange={handleTempoChange}
+                          placeholder="3-1-1-0"
+                          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      {currentBlock.rounds > 1 && (
+                        <details className="md:col-span-7" open={hasRoundOverrides(currentExerciseInstance)}>
+                          <summary className="text-sm font-medium text-gray-300 cursor-pointer select-none">
+                            Variación por ronda
+                          </summary>
+                          <div className="mt-3">
+                            <RoundOverridesInput
+                              rounds={currentBlock.rounds}
+                              base={{ ...getPrescription(currentExerciseInstance), load: currentExerciseInstance.load }}
+                              value={currentExerciseInstance.round_overrides}
+                              onChange={handleRoundOverridesChange}
+                            />
+                          </div>
+                        </details>
+                      )}
+                    </div>
+                    <div className="mt-5 flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleAddExerciseInstance}
+                        disabled={currentExerciseInstance.exercise_id === 0 || exercises.length === 0}
+                        className={`px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-md transition-colors flex items-center ${
+                          currentExerciseInstance.exercise_id === 0 || exercises.length === 0
+                            ? 'opacity-50 cursor-not-allowed bg-blue-800'
+                            : ''
+                        }`}
+                      >
+                        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                        </svg>
+                        Añadir Ejercicio al Bloque
+                      </button>
+                    </div>
+                    
+                    {exercises.length === 0 && (
+                      <div className="mt-4 p-4 bg-blue-900/30 border border-blue-800/50 rounded-lg text-blue-300 text-sm">
+                        <div className="flex items-start">
+                          <svg className="w-5 h-5 mr-2 mt-0.5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                          <div>
+                            <p className="font-medium mb-1">No hay ejercicios disponibles</p>
+                            <p>
+                              Para crear rutinas, primero debes crear algunos ejercicios. Ve a la sección de{' '}
+                              <Link href="/exercises" className="underline hover:text-blue-200">Ejercicios</Link>{' '}
+                              y crea algunos ejercicios para poder añadirlos a tus rutinas.
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleAddBlock}
+                    disabled={!currentBlock.name || currentBlock.exercise_instances.length === 0}
+                    className={`px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-md cursor-pointer transition-colors flex items-center ${
+                      !currentBlock.name || currentBlock.exercise_instances.length === 0 
+                        ? 'opacity-50 cursor-not-allowed' 
+                        : ''
+                    }`}
+                  >
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    Añadir Bloque a la Rutina
+                  </button>
+                </div>
+              </div>
+            </div>
+            
+            {/* Submit Button */}
+            <div className="mt-8 flex justify-end">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-6 py-3 text-gray-300 mr-4 hover:text-white"
+                disabled={isSubmitting}
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={workout.name === '' || workout.blocks.length === 0 || isSubmitting}
+                className={`px-6 py-3 bg-blue-600 text-white rounded-md shadow-md flex items-center ${
+                  workout.name === '' || workout.blocks.length === 0 || isSubmitting 
+                    ? 'opacity-50 cursor-not-allowed' 
+                    : 'hover:bg-blue-700'
+                }`}
+              >
+                {isSubmitting ? (
+                  <>
+                    <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Guardando...
+                  </>
+                ) : (
+                  'Guardar Rutina'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </main>
+    </>
+  );
+} 
\ No newline at end of file
@@ -2,19 +2,26 @@ import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { Workout } from "@/hooks/useWorkouts";
+import { Permission } from "@/lib/authorization";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useRouter } from "next/navigation";
+import AssignWorkoutModal from "./AssignWorkoutModal";
+import WorkoutSummaryStats from "./WorkoutSummaryStats";
+import { postWorkout } from "@/lib/workoutApi";
+import { copyDraftWorkout, toDraftWorkout, toWorkoutPayload } from "@/lib/workoutRows";
 
 interface WorkoutCardProps {
   workout: Workout;
   onDelete?: (workoutId: number) => void; // For immediate UI updates
   refreshWorkouts?: () => void; // Optional function to refresh data from API
-  isTrainer?: boolean; // Whether the current user is a trainer
+  can: (permission: Permission) => boolean; // Permission check for the current user
 }
 
-export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrainer = true }: WorkoutCardProps) {
+export default function WorkoutCard({ workout, onDelete, refreshWorkouts, can }: WorkoutCardProps) {
   const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
   
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -64,6 +71,22 @@ export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrai
     );
   };
   
+  // Deep copy the workout with all its blocks and instances, then open the copy for editing
+  const handleDuplicateWorkout = async () => {
+    try {
+      setIsDuplicating(true);
+      const sourceTemplateId = workout.is_template ? workout.id : workout.source_template_id ?? null;
+      const copy = copyDraftWorkout(toDraftWorkout(workout), `${workout.name} (copia)`, sourceTemplateId);
+      const { workout_id } = await postWorkout(toWorkoutPayload(copy));
+      router.push(`/workouts/${workout_id}/edit`);
+    } catch (error) {
+      console.error('Error duplicating workout:', error);
+      alert(error instanceof Error ? error.message : 'Error al duplicar la rutina. Por favor, inténtalo de nuevo.');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+  
   const handleDeleteWorkout = async () => {
     if (window.confirm(`¿Estás seguro de que quieres eliminar "${workout.name}"?`)) {
       try {
@@ -109,7 +132,14 @@ export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrai
   
   return (
     <div className="border border-gray-700 bg-gray-900 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
-      <h2 className="text-xl font-semibold text-white mb-2">{workout.name}</h2>
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <h2 className="text-xl font-semibold text-white">{workout.name}</h2>
+        {workout.is_template && (
+          <span className="bg-purple-900 text-purple-200 text-xs px-2 py-1 rounded-full whitespace-nowrap">
+            Plantilla
+          </span>
+        )}
+      </div>
       
       <div className="mb-4">
         <p className="text-sm text-gray-400">
@@ -123,6 +153,7 @@ export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrai
             {workout.blocks?.length || 0} {(workout.blocks?.length || 0) === 1 ? 'Bloque' : 'Bloques'}
           </span>
         </div>
+        <WorkoutSummaryStats workout={workout} className="mt-2" />
         <CreatorAvatar />
       </div>
       
@@ -138,7 +169,56 @@ export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrai
           Ver Rutina
         </Link>
 
-        {isTrainer && !workout.isAssigned && (
+        {can('edit_workout') && !workout.isAssigned && (
+          <Link
+            href={`/workouts/${workout.id}/edit`}
+            className="inline-flex items-center justify-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-white text-sm font-medium transition-colors cursor-pointer"
+          >
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </svg>
+            Editar
+          </Link>
+        )}
+
+        {can('create_workout') && workout.is_template && (
+          <Link
+            href={`/workouts/create?template=${workout.id}`}
+            className="inline-flex items-center justify-center px-4 py-2 bg-purple-700 hover:bg-purple-600 rounded text-white text-sm font-medium transition-colors cursor-pointer"
+          >
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Usar Plantilla
+          </Link>
+        )}
+
+        {can('create_workout') && !workout.isAssigned && (
+          <button
+            onClick={handleDuplicateWorkout}
+            disabled={isDuplicating}
+            className="inline-flex items-center justify-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-white text-sm font-medium transition-colors cursor-pointer disabled:opacity-50"
+          >
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+            {isDuplicating ? 'Duplicando...' : 'Duplicar'}
+          </button>
+        )}
+
+        {can('assign_workout') && !workout.isAssigned && (
+          <button
+            onClick={() => setIsAssignModalOpen(true)}
+            className="inline-flex items-center justify-center px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded text-white text-sm font-medium transition-colors cursor-pointer"
+          >
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+            </svg>
+            Asignar
+          </button>
+        )}
+
+        {can('edit_workout') && !workout.isAssigned && (
           <button 
             onClick={handleDeleteWorkout}
             disabled={isDeleting}
@@ -152,6 +232,14 @@ export default function WorkoutCard({ workout, onDelete, refreshWorkouts, isTrai
           </button>
         )}
       </div>
+
+      {isAssignModalOpen && (
+        <AssignWorkoutModal
+          workout={workout}
+          isOpen={isAssignModalOpen}
+          onClose={() => setIsAssignModalOpen(false)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
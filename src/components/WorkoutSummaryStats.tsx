@@ -0,0 +1,36 @@
+import { formatEstimatedDuration, summarizeWorkout } from "@/lib/workoutSummary";
+
+interface WorkoutSummaryStatsProps {
+  workout: Parameters<typeof summarizeWorkout>[0];
+  className?: string;
+}
+
+// Estimated time, sets and reps of a workout as a row of small stats
+export default function WorkoutSummaryStats({ workout, className = '' }: WorkoutSummaryStatsProps) {
+  const summary = summarizeWorkout(workout);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400 ${className}`}>
+      <span className="inline-flex items-center" title="Duración estimada">
+        <svg className="w-4 h-4 mr-1 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        {formatEstimatedDuration(summary.estimatedSeconds)}
+      </span>
+      <span className="inline-flex items-center">
+        <svg className="w-4 h-4 mr-1 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+        </svg>
+        {summary.totalSets} {summary.totalSets === 1 ? 'serie' : 'series'}
+      </span>
+      {summary.totalReps > 0 && (
+        <span className="inline-flex items-center">
+          <svg className="w-4 h-4 mr-1 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+          {summary.totalReps} reps
+        </span>
+      )}
+    </div>
+  );
+}
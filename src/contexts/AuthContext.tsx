@@ -1,11 +1,12 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState } from 'react';
-import { createClientComponentClient, SupabaseClient, User } from '@supabase/auth-helpers-nextjs';
+import { createClientComponentClient, Session, SupabaseClient, User } from '@supabase/auth-helpers-nextjs';
 import { useRouter } from 'next/navigation';
 
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
   supabase: SupabaseClient;
   signInWithGoogle: () => Promise<void>;
   signOut: () => Promise<void>;
@@ -16,6 +17,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
   
@@ -31,6 +33,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         userId: session?.user?.id,
         email: session?.user?.email
       });
+      setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
@@ -45,6 +48,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       });
       
       // Update user state with the current session
+      setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
 
@@ -372,6 +376,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       // Clear local state first
       setUser(null);
+      setSession(null);
       
       try {
         // Call our server-side signout endpoint first (most reliable)
@@ -520,7 +525,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, supabase, signInWithGoogle, signOut, loading }}>
+    <AuthContext.Provider value={{ user, session, supabase, signInWithGoogle, signOut, loading }}>
       {children}
     </AuthContext.Provider>
   );
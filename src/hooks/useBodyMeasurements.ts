@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { BodyMeasurement, MeasurementInput } from '@/lib/bodyMeasurements';
+
+// The current user's body measurements, newest first
+export function useBodyMeasurements() {
+  const { user } = useAuth();
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+
+  // Function to manually trigger a refresh
+  const refreshMeasurements = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchMeasurements() {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('body_measurements')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('measured_on', { ascending: false })
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          throw new Error(`Error al obtener las mediciones: ${error.message}`);
+        }
+
+        setMeasurements(data || []);
+      } catch (err) {
+        console.error('Error in fetchMeasurements:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar las mediciones');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchMeasurements();
+  }, [refreshTrigger, user]);
+
+  const addMeasurement = useCallback(async (input: MeasurementInput) => {
+    if (!user) throw new Error('Debes iniciar sesión para registrar mediciones');
+
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('body_measurements')
+      .insert({ ...input, user_id: user.id });
+
+    if (error) throw new Error(`Error al guardar la medición: ${error.message}`);
+
+    refreshMeasurements();
+  }, [user, refreshMeasurements]);
+
+  const removeMeasurement = useCallback(async (id: number) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('body_measurements')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Error al eliminar la medición: ${error.message}`);
+
+    setMeasurements(prev => prev.filter(measurement => measurement.id !== id));
+  }, []);
+
+  return { measurements, loading, error, refreshMeasurements, addMeasurement, removeMeasurement };
+}
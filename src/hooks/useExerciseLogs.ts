@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { SetLog } from '@/hooks/useWorkoutSessions';
+
+export interface ExerciseLog extends SetLog {
+  session?: {
+    user_id: string;
+    workout_id: number;
+    started_at: string;
+  };
+}
+
+// Every set the current user logged for an exercise, newest first
+export function useExerciseLogs(exerciseId?: number | string) {
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<ExerciseLog[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLogs() {
+      if (!user || !exerciseId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('set_logs')
+          .select(`
+            *,
+            session:workout_sessions!inner (
+              user_id,
+              workout_id,
+              started_at
+            )
+          `)
+          .eq('exercise_id', exerciseId)
+          .eq('session.user_id', user.id)
+          .order('completed_at', { ascending: false });
+
+        if (error) {
+          throw new Error(`Error al obtener las series registradas: ${error.message}`);
+        }
+
+        setLogs(data || []);
+      } catch (err) {
+        console.error('Error in fetchLogs:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar las series registradas');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLogs();
+  }, [user, exerciseId]);
+
+  return { logs, loading, error };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import supabase from '@/utils/supabase';
 import { Exercise } from '@/components/ExerciseCard';
 import { useAuth } from '@/contexts/AuthContext';
+import { getTaxonomy, TAXONOMY_COLUMNS } from '@/lib/exerciseTaxonomy';
 
 // Define the Profile interface to match what is in ExerciseCard
 interface Profile {
@@ -44,7 +45,7 @@ export function useExercises() {
         const { data, error } = await supabase
           .from('exercises')
           .select(`
-            id, name, description, image, video, created_by
+            id, name, description, image, video, created_by, created_at, ${TAXONOMY_COLUMNS}
           `)
           .eq('created_by', user.id) // Filter by current user's ID
           .order('created_at', { ascending: false });
@@ -91,6 +92,8 @@ export function useExercises() {
               image: exercise.image,
               video: exercise.video,
               created_by: exercise.created_by,
+              created_at: exercise.created_at,
+              ...getTaxonomy(exercise),
               creator
             };
           });
@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_ONE_REP_MAX_FORMULA, ONE_REP_MAX_FORMULAS, OneRepMaxFormula } from '@/lib/personalRecords';
+
+const STORAGE_KEY = 'one-rep-max-formula';
+
+// The e1RM formula picked on the records view, remembered on this device so the
+// player flags new records with the same formula
+export function useOneRepMaxFormula() {
+  const [formula, setFormulaState] = useState<OneRepMaxFormula>(DEFAULT_ONE_REP_MAX_FORMULA);
+
+  // Read after mount, localStorage doesn't exist while prerendering
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored && stored in ONE_REP_MAX_FORMULAS) {
+      setFormulaState(stored as OneRepMaxFormula);
+    }
+  }, []);
+
+  const setFormula = useCallback((next: OneRepMaxFormula) => {
+    setFormulaState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  return { formula, setFormula };
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { orderWorkout, WORKOUT_NESTED_SELECT } from '@/hooks/useWorkouts';
+import { Program, ProgramDay, UserProgram } from '@/lib/programs';
+
+// Program with its days and the workout each day points at
+export const PROGRAM_NESTED_SELECT = `
+  *,
+  program_days (
+    *,
+    workout:workouts (${WORKOUT_NESTED_SELECT})
+  )
+`;
+
+const byWeekAndDay = (a: ProgramDay, b: ProgramDay) => a.week - b.week || a.day_of_week - b.day_of_week;
+
+// Sort days chronologically and the embedded workouts as authored
+export function orderProgram(program: Program): Program {
+  return {
+    ...program,
+    program_days: program.program_days && [...program.program_days].sort(byWeekAndDay).map(day => ({
+      ...day,
+      workout: day.workout && orderWorkout(day.workout)
+    }))
+  };
+}
+
+// Programs the current user built (trainers) and the ones assigned to them
+export function usePrograms() {
+  const { user } = useAuth();
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [assignments, setAssignments] = useState<UserProgram[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+
+  // Function to manually trigger a refresh
+  const refreshPrograms = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchPrograms() {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+
+        const { data: createdData, error: createdError } = await supabase
+          .from('programs')
+          .select(PROGRAM_NESTED_SELECT)
+          .eq('created_by', user.id)
+          .order('created_at', { ascending: false });
+
+        if (createdError) {
+          throw new Error(`Error al obtener programas: ${createdError.message}`);
+        }
+
+        const { data: assignedData, error: assignedError } = await supabase
+          .from('user_programs')
+          .select(`
+            *,
+            program:programs (${PROGRAM_NESTED_SELECT})
+          `)
+          .eq('user_id', user.id)
+          .order('start_date', { ascending: false });
+
+        if (assignedError) {
+          throw new Error(`Error al obtener programas asignados: ${assignedError.message}`);
+        }
+
+        setPrograms((createdData || []).map(orderProgram));
+        setAssignments((assignedData || []).map(assignment => ({
+          ...assignment,
+          program: assignment.program && orderProgram(assignment.program)
+        })));
+      } catch (err) {
+        console.error('Error in fetchPrograms:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar programas');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPrograms();
+  }, [refreshTrigger, user]);
+
+  return { programs, assignments, loading, error, refreshPrograms };
+}
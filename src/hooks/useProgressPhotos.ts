@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PhotoPose,
+  PROGRESS_PHOTOS_BUCKET,
+  ProgressPhoto,
+  signPhotoUrls,
+  uploadProgressPhoto
+} from '@/lib/progressPhotos';
+
+// Progress photos of the current user, or of one of a trainer's clients when
+// athleteId is given (read access comes from the accepted relationship), newest first
+export function useProgressPhotos(athleteId?: string) {
+  const { user } = useAuth();
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+
+  const ownerId = athleteId || user?.id;
+
+  // Function to manually trigger a refresh
+  const refreshPhotos = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchPhotos() {
+      if (!ownerId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('progress_photos')
+          .select('*')
+          .eq('user_id', ownerId)
+          .order('taken_on', { ascending: false });
+
+        if (error) {
+          throw new Error(`Error al obtener las fotos: ${error.message}`);
+        }
+
+        const rows = (data || []) as ProgressPhoto[];
+        const urls = await signPhotoUrls(supabase, rows.map(photo => photo.storage_path));
+
+        setPhotos(rows.map(photo => ({ ...photo, url: urls[photo.storage_path] })));
+      } catch (err) {
+        console.error('Error in fetchPhotos:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar las fotos');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPhotos();
+  }, [refreshTrigger, ownerId]);
+
+  // Replaces the photo already stored for that date and pose, if any
+  const addPhoto = useCallback(async (takenOn: string, pose: PhotoPose, file: File) => {
+    if (!user) throw new Error('Debes iniciar sesión para subir fotos');
+
+    const supabase = createClientComponentClient();
+    const path = await uploadProgressPhoto(supabase, user.id, takenOn, pose, file);
+    const previous = photos.find(photo => photo.taken_on === takenOn && photo.pose === pose);
+
+    const { error } = await supabase
+      .from('progress_photos')
+      .upsert(
+        { user_id: user.id, taken_on: takenOn, pose, storage_path: path },
+        { onConflict: 'user_id,taken_on,pose' }
+      );
+
+    if (error) {
+      await supabase.storage.from(PROGRESS_PHOTOS_BUCKET).remove([path]);
+      throw new Error(`Error al guardar la foto: ${error.message}`);
+    }
+
+    if (previous) {
+      await supabase.storage.from(PROGRESS_PHOTOS_BUCKET).remove([previous.storage_path]);
+    }
+
+    refreshPhotos();
+  }, [user, photos, refreshPhotos]);
+
+  const removePhoto = useCallback(async (photo: ProgressPhoto) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('progress_photos')
+      .delete()
+      .eq('id', photo.id);
+
+    if (error) throw new Error(`Error al eliminar la foto: ${error.message}`);
+
+    const { error: storageError } = await supabase.storage
+      .from(PROGRESS_PHOTOS_BUCKET)
+      .remove([photo.storage_path]);
+
+    if (storageError) {
+      console.error('Error removing photo file:', storageError);
+    }
+
+    setPhotos(prev => prev.filter(item => item.id !== photo.id));
+  }, []);
+
+  return { photos, loading, error, refreshPhotos, addPhoto, removePhoto };
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getRoles, hasPermission, hasRole as roleListHasRole, Permission, Role } from '@/lib/authorization';
+
+// The current user's roles, read from the session's access token
+export function useRole() {
+  const { session, supabase, loading: authLoading } = useAuth();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadRoles() {
+      if (authLoading) return;
+
+      if (!session) {
+        setRoles([]);
+        setLoading(false);
+        return;
+      }
+
+      const sessionRoles = await getRoles(supabase, session);
+      if (!cancelled) {
+        setRoles(sessionRoles);
+        setLoading(false);
+      }
+    }
+
+    loadRoles();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, supabase, authLoading]);
+
+  const hasRole = useCallback((role: Role) => roleListHasRole(roles, role), [roles]);
+
+  return { roles, loading, hasRole };
+}
+
+// Permission checks for the current user; see PERMISSION_ROLES in src/lib/authorization.ts
+export function usePermissions() {
+  const { roles, loading } = useRole();
+
+  const can = useCallback((permission: Permission) => hasPermission(roles, permission), [roles]);
+
+  return { can, loading };
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { Workout } from '@/hooks/useWorkouts';
+
+export const SCHEDULE_STATUSES = {
+  planned: 'Planificada',
+  completed: 'Completada',
+  skipped: 'Saltada'
+} as const;
+
+export type ScheduleStatus = keyof typeof SCHEDULE_STATUSES;
+
+export interface ScheduledWorkout {
+  id: number;
+  user_id: string;
+  workout_id: number;
+  scheduled_for: string; // YYYY-MM-DD
+  status: ScheduleStatus;
+  scheduled_by: string;
+  created_at: string;
+  workout?: Pick<Workout, 'id' | 'name'>;
+}
+
+// Calendar entries of an athlete (the current user by default) between two
+// YYYY-MM-DD dates, both inclusive
+export function useScheduledWorkouts(from: string, to: string, athleteId?: string) {
+  const { user } = useAuth();
+  const [scheduled, setScheduled] = useState<ScheduledWorkout[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+  const userId = athleteId || user?.id;
+
+  // Function to manually trigger a refresh
+  const refreshSchedule = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchSchedule() {
+      if (!userId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('scheduled_workouts')
+          .select(`
+            *,
+            workout:workouts (
+              id,
+              name
+            )
+          `)
+          .eq('user_id', userId)
+          .gte('scheduled_for', from)
+          .lte('scheduled_for', to)
+          .order('scheduled_for', { ascending: true })
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Error al obtener el calendario: ${error.message}`);
+        }
+
+        setScheduled(data || []);
+        setError(null);
+      } catch (err) {
+        console.error('Error in fetchSchedule:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar el calendario');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSchedule();
+  }, [refreshTrigger, userId, from, to]);
+
+  const scheduleWorkout = useCallback(async (workoutId: number, date: string) => {
+    if (!userId) throw new Error('Debes iniciar sesión para planificar entrenamientos');
+
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('scheduled_workouts')
+      .insert({ user_id: userId, workout_id: workoutId, scheduled_for: date });
+
+    if (error) throw new Error(`Error al planificar la rutina: ${error.message}`);
+
+    refreshSchedule();
+  }, [userId, refreshSchedule]);
+
+  // Shared by drag and drop and the status buttons; the local copy is
+  // updated right away so the calendar doesn't wait for a refetch
+  const updateScheduledWorkout = useCallback(async (id: number, changes: Partial<Pick<ScheduledWorkout, 'scheduled_for' | 'status'>>) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('scheduled_workouts')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw new Error(`Error al actualizar el calendario: ${error.message}`);
+
+    setScheduled(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+  }, []);
+
+  const removeScheduledWorkout = useCallback(async (id: number) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('scheduled_workouts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Error al quitar la rutina del calendario: ${error.message}`);
+
+    setScheduled(prev => prev.filter(entry => entry.id !== id));
+  }, []);
+
+  return {
+    scheduled,
+    loading,
+    error,
+    refreshSchedule,
+    scheduleWorkout,
+    updateScheduledWorkout,
+    removeScheduledWorkout
+  };
+}
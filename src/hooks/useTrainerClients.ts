@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type RelationshipStatus = 'pending' | 'accepted' | 'rejected';
+
+interface Profile {
+  uuid: string;
+  name?: string;
+  image?: string;
+  email?: string;
+  last_sign_in_at?: string;
+}
+
+export interface ClientRelationship {
+  id: number;
+  trainer_id: string;
+  user_id: string;
+  status: RelationshipStatus;
+  created_at?: string;
+  client?: Profile;
+}
+
+// Requests addressed to the current user as a trainer, with the requesting user's profile.
+// Pass enabled = false to skip the query for users who can't see clients
+export function useTrainerClients(enabled: boolean = true) {
+  const { user } = useAuth();
+  const [relationships, setRelationships] = useState<ClientRelationship[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+
+  // Function to manually trigger a refresh
+  const refreshClients = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchClients() {
+      if (!user || !enabled) {
+        setRelationships([]);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+
+        const { data, error } = await supabase
+          .from('trainer_user_relationships')
+          .select(`
+            *,
+            client:profiles!user_id (
+              uuid,
+              name,
+              email,
+              image,
+              last_sign_in_at
+            )
+          `)
+          .eq('trainer_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          throw new Error(`Error al obtener clientes: ${error.message}`);
+        }
+
+        setRelationships(data || []);
+      } catch (err) {
+        console.error('Error in fetchClients:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar clientes');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchClients();
+  }, [refreshTrigger, user, enabled]);
+
+  const updateStatus = useCallback(async (relationshipId: number, status: RelationshipStatus) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('trainer_user_relationships')
+      .update({ status })
+      .eq('id', relationshipId);
+
+    if (error) throw new Error(`Error al actualizar solicitud: ${error.message}`);
+
+    // Update local state immediately for a responsive UI
+    setRelationships(prev => prev.map(rel => rel.id === relationshipId ? { ...rel, status } : rel));
+  }, []);
+
+  const removeRelationship = useCallback(async (relationshipId: number) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('trainer_user_relationships')
+      .delete()
+      .eq('id', relationshipId);
+
+    if (error) throw new Error(`Error al eliminar cliente: ${error.message}`);
+
+    setRelationships(prev => prev.filter(rel => rel.id !== relationshipId));
+  }, []);
+
+  const counts = {
+    pending: relationships.filter(rel => rel.status === 'pending').length,
+    accepted: relationships.filter(rel => rel.status === 'accepted').length,
+    rejected: relationships.filter(rel => rel.status === 'rejected').length
+  };
+
+  return { relationships, counts, loading, error, refreshClients, updateStatus, removeRelationship };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { SetLog, WorkoutSession } from '@/hooks/useWorkoutSessions';
+
+export interface HistorySetLog extends SetLog {
+  exercise?: { id: number; name: string } | null;
+}
+
+export interface HistorySession extends WorkoutSession {
+  set_logs?: HistorySetLog[];
+}
+
+// The current user's own finished sessions with every logged set, oldest first
+export function useTrainingHistory() {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+        const { data, error } = await supabase
+          .from('workout_sessions')
+          .select(`
+            *,
+            set_logs (
+              *,
+              exercise:exercises (
+                id,
+                name
+              )
+            )
+          `)
+          .eq('user_id', user.id)
+          .not('finished_at', 'is', null)
+          .order('finished_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Error al obtener el historial: ${error.message}`);
+        }
+
+        setSessions(data || []);
+      } catch (err) {
+        console.error('Error in fetchHistory:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar el historial');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [user]);
+
+  return { sessions, loading, error };
+}
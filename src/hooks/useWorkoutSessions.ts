@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface Profile {
+  uuid: string;
+  name?: string;
+  image?: string;
+  email?: string;
+}
+
+export interface SetLog {
+  id: number;
+  session_id: number;
+  exercise_instance_id: number | null;
+  exercise_id: number | null;
+  round: number;
+  reps: number | null;
+  weight: number | null; // Actual load in kg
+  rpe: number | null;
+  notes?: string | null;
+  completed_at: string;
+}
+
+export interface WorkoutSession {
+  id: number;
+  workout_id: number;
+  user_id: string;
+  started_at: string;
+  finished_at?: string | null;
+  notes?: string | null;
+  set_logs?: SetLog[];
+  athlete?: Profile;
+}
+
+export type SetLogInput = Pick<SetLog, 'exercise_instance_id' | 'exercise_id' | 'round' | 'reps' | 'weight' | 'rpe' | 'notes'>;
+
+// Sessions visible to the current user: their own, plus their clients' when they are a trainer
+export function useWorkoutSessions(workoutId?: number | string) {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
+
+  // Function to manually trigger a refresh
+  const refreshSessions = useCallback(() => {
+    setRefreshTrigger(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    async function fetchSessions() {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const supabase = createClientComponentClient();
+
+        let query = supabase
+          .from('workout_sessions')
+          .select(`
+            *,
+            set_logs (*),
+            athlete:profiles!user_id (
+              uuid,
+              name,
+              email,
+              image
+            )
+          `)
+          .order('started_at', { ascending: false });
+
+        if (workoutId) {
+          query = query.eq('workout_id', workoutId);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw new Error(`Error al obtener sesiones: ${error.message}`);
+        }
+
+        setSessions(data || []);
+      } catch (err) {
+        console.error('Error in fetchSessions:', err);
+        setError(err instanceof Error ? err.message : 'Error al cargar sesiones');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSessions();
+  }, [refreshTrigger, user, workoutId]);
+
+  const { startSession, logSet, finishSession: finishLoggedSession } = useSessionLogging();
+
+  const finishSession = useCallback(async (sessionId: number, notes?: string) => {
+    await finishLoggedSession(sessionId, notes);
+    refreshSessions();
+  }, [finishLoggedSession, refreshSessions]);
+
+  return { sessions, loading, error, refreshSessions, startSession, logSet, finishSession };
+}
+
+// Write helpers for recording a session, without fetching any session history
+export function useSessionLogging() {
+  const { user } = useAuth();
+
+  // Open a new session for the current user
+  const startSession = useCallback(async (sessionWorkoutId: number): Promise<WorkoutSession> => {
+    if (!user) throw new Error('Debes iniciar sesión para registrar un entrenamiento');
+
+    const supabase = createClientComponentClient();
+    const { data, error } = await supabase
+      .from('workout_sessions')
+      .insert({ workout_id: sessionWorkoutId, user_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Error al iniciar la sesión: ${error.message}`);
+
+    return data;
+  }, [user]);
+
+  // Record (or overwrite) what was done for an instance in a given round
+  const logSet = useCallback(async (sessionId: number, input: SetLogInput): Promise<SetLog> => {
+    const supabase = createClientComponentClient();
+    const { data, error } = await supabase
+      .from('set_logs')
+      .upsert(
+        { ...input, session_id: sessionId, completed_at: new Date().toISOString() },
+        { onConflict: 'session_id,exercise_instance_id,round' }
+      )
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Error al registrar la serie: ${error.message}`);
+
+    return data;
+  }, []);
+
+  const finishSession = useCallback(async (sessionId: number, notes?: string) => {
+    const supabase = createClientComponentClient();
+    const { error } = await supabase
+      .from('workout_sessions')
+      .update({ finished_at: new Date().toISOString(), notes: notes || null })
+      .eq('id', sessionId);
+
+    if (error) throw new Error(`Error al finalizar la sesión: ${error.message}`);
+  }, []);
+
+  return { startSession, logSet, finishSession };
+}
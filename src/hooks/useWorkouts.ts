@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 import { Exercise } from '@/components/ExerciseCard';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/useRole';
+import { LoadPrescription } from '@/lib/loadPrescription';
+import { PrescriptionType } from '@/lib/setPrescription';
+import { BlockType } from '@/lib/blockTypes';
+import { RoundOverride } from '@/lib/setVariation';
 
 // Import or define Profile interface.
 interface Profile {
@@ -19,7 +24,14 @@ export interface ExerciseInstance {
   exercise_id: number;
   exercise?: Exercise;
   created_by?: string;
-  weight?: string;
+  load?: LoadPrescription;
+  prescription_type?: PrescriptionType;
+  reps_max?: number | null;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  tempo?: string | null;
+  round_overrides?: RoundOverride[] | null;
+  position?: number;
 }
 
 export interface Block {
@@ -29,6 +41,13 @@ export interface Block {
   workout_id: number;
   exercise_instances?: ExerciseInstance[];
   created_by?: string;
+  position?: number;
+  block_type?: BlockType;
+  time_cap_seconds?: number | null;
+  interval_seconds?: number | null;
+  work_seconds?: number | null;
+  rest_seconds?: number | null;
+  round_rest_seconds?: number | null;
 }
 
 export interface Workout {
@@ -40,10 +59,39 @@ export interface Workout {
   creator?: Profile; // Profile information
   blocks?: Block[];
   isAssigned?: boolean;
+  is_template?: boolean;
+  source_template_id?: number | null;
+}
+
+// Nested select used wherever a workout is rendered with its blocks and exercises
+export const WORKOUT_NESTED_SELECT = `
+  *,
+  blocks (
+    *,
+    exercise_instances (
+      *,
+      exercise:exercises (*)
+    )
+  )
+`;
+
+const byPosition = (a: { id: number; position?: number }, b: { id: number; position?: number }) =>
+  (a.position ?? 0) - (b.position ?? 0) || a.id - b.id;
+
+// Embedded rows come back in arbitrary order, sort blocks and instances as authored
+export function orderWorkout(workout: Workout): Workout {
+  return {
+    ...workout,
+    blocks: workout.blocks && [...workout.blocks].sort(byPosition).map(block => ({
+      ...block,
+      exercise_instances: block.exercise_instances && [...block.exercise_instances].sort(byPosition)
+    }))
+  };
 }
 
 export function useWorkouts() {
   const { user } = useAuth();
+  const { can, loading: permissionsLoading } = usePermissions();
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -54,47 +102,30 @@ export function useWorkouts() {
     setRefreshTrigger(prev => prev + 1);
   }, []);
 
+  // Users who build workouts also see the ones they created
+  const canCreateWorkouts = can('create_workout');
+
   useEffect(() => {
     async function fetchWorkouts() {
       if (!user) {
         setLoading(false);
         return;
       }
+
+      // Wait for the permissions so trainers don't briefly see only assigned workouts
+      if (permissionsLoading) return;
       
       try {
         setLoading(true);
         const supabase = createClientComponentClient();
-        
-        // Get user profile to check role
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('roles')
-          .eq('uuid', user.id)
-          .single();
-        
-        if (profileError) {
-          console.error('Error fetching user profile:', profileError);
-        }
-        
-        // Check if user has 'trainer' role
-        const isTrainer = profileData?.roles?.includes('trainer') || false;
-        
+
         let allWorkouts: Workout[] = [];
         
-        if (isTrainer) {
+        if (canCreateWorkouts) {
           // For trainers: Fetch workouts created by the current user
           const { data: createdWorkouts, error: createdError } = await supabase
             .from('workouts')
-            .select(`
-              *,
-              blocks (
-                *,
-                exercise_instances (
-                  *,
-                  exercise:exercises (*)
-                )
-              )
-            `)
+            .select(WORKOUT_NESTED_SELECT)
             .eq('created_by', user.id)
             .order('created_at', { ascending: false });
           
@@ -102,7 +133,7 @@ export function useWorkouts() {
             throw new Error(`Error al obtener rutinas creadas: ${createdError.message}`);
           }
           
-          allWorkouts = createdWorkouts || [];
+          allWorkouts = (createdWorkouts || []).map(orderWorkout);
         }
         
         // For all users: Fetch workouts assigned to the user
@@ -110,16 +141,7 @@ export function useWorkouts() {
           .from('user_workouts')
           .select(`
             *,
-            workout:workouts (
-              *,
-              blocks (
-                *,
-                exercise_instances (
-                  *,
-                  exercise:exercises (*)
-                )
-              )
-            ),
+            workout:workouts (${WORKOUT_NESTED_SELECT}),
             trainer:profiles!trainer_id (
               uuid,
               name,
@@ -139,7 +161,7 @@ export function useWorkouts() {
           if (!workout) return null;
           
           return {
-            ...workout,
+            ...orderWorkout(workout),
             creator: assignment.trainer,
             isAssigned: true
           };
@@ -199,7 +221,7 @@ export function useWorkouts() {
     }
 
     fetchWorkouts();
-  }, [refreshTrigger, user]);
+  }, [refreshTrigger, user, canCreateWorkouts, permissionsLoading]);
   
   return { workouts, loading, error, refreshWorkouts };
 } 
\ No newline at end of file
@@ -0,0 +1,96 @@
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+
+// Roles and permissions in one place. Roles live in profiles.roles and are
+// copied into the access token by custom_access_token_hook (see
+// supabase/migrations/20261019260000_access_token_roles.sql), so checks don't
+// need a profile query. These checks decide what the app shows and where it
+// redirects; row level security still enforces access in the database
+
+export const ROLES = {
+  user: 'Usuario',
+  trainer: 'Entrenador',
+  admin: 'Administrador'
+} as const;
+
+export type Role = keyof typeof ROLES;
+
+// Access token claim written by the hook
+export const ROLES_CLAIM = 'user_roles';
+
+export type Permission =
+  | 'create_workout'
+  | 'edit_workout'
+  | 'assign_workout'
+  | 'create_program'
+  | 'assign_program'
+  | 'manage_exercises'
+  | 'view_clients';
+
+// Roles granted each permission. Database functions and policies check for the
+// trainer role by name, so admin doesn't imply trainer permissions here either
+const PERMISSION_ROLES: Record<Permission, Role[]> = {
+  create_workout: ['trainer'],
+  edit_workout: ['trainer'],
+  assign_workout: ['trainer'],
+  create_program: ['trainer'],
+  assign_program: ['trainer'],
+  manage_exercises: ['trainer'],
+  view_clients: ['trainer']
+};
+
+// Pages only reachable with a permission, checked in middleware
+const ROUTE_PERMISSIONS: { matches: (pathname: string) => boolean; permission: Permission }[] = [
+  { matches: pathname => pathname.startsWith('/workouts/create'), permission: 'create_workout' },
+  { matches: pathname => pathname.includes('/edit'), permission: 'edit_workout' },
+  { matches: pathname => pathname.startsWith('/programs/create'), permission: 'create_program' },
+  { matches: pathname => pathname.startsWith('/clientes'), permission: 'view_clients' }
+];
+
+// Keep only known role names
+export function parseRoles(value: unknown): Role[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((role): role is Role => typeof role === 'string' && role in ROLES);
+}
+
+// Roles from the access token claim, or null when the token predates the hook
+export function rolesFromAccessToken(accessToken: string): Role[] | null {
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload));
+    return ROLES_CLAIM in claims ? parseRoles(claims[ROLES_CLAIM]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Roles of the session's user. Falls back to the profile while the session
+// still carries a token issued before the hook was enabled
+export async function getRoles(supabase: SupabaseClient, session: Session): Promise<Role[]> {
+  const fromToken = rolesFromAccessToken(session.access_token);
+  if (fromToken) return fromToken;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('roles')
+    .eq('uuid', session.user.id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching user roles:', error);
+  }
+
+  return parseRoles(data?.roles);
+}
+
+export function hasRole(roles: Role[], role: Role): boolean {
+  return roles.includes(role);
+}
+
+export function hasPermission(roles: Role[], permission: Permission): boolean {
+  return PERMISSION_ROLES[permission].some(role => hasRole(roles, role));
+}
+
+// Permission needed to open a page, or null when any signed-in user may
+export function requiredPermission(pathname: string): Permission | null {
+  return ROUTE_PERMISSIONS.find(route => route.matches(pathname))?.permission ?? null;
+}
@@ -0,0 +1,157 @@
+import { formatDuration } from '@/lib/setPrescription';
+import { isInteger } from '@/lib/utils';
+
+// How the exercises of a block are performed. Straight sets rest after every
+// exercise, supersets and circuits only after the last exercise of each round,
+// EMOM starts a round every interval, AMRAP repeats rounds until the time cap
+// and Tabata alternates fixed work and rest intervals
+
+export const BLOCK_TYPES = {
+  straight: 'Series',
+  superset: 'Superserie',
+  circuit: 'Circuito',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  tabata: 'Tabata'
+} as const;
+
+export type BlockType = keyof typeof BLOCK_TYPES;
+
+export interface BlockSettings {
+  block_type: BlockType;
+  time_cap_seconds: number | null;
+  interval_seconds: number | null;
+  work_seconds: number | null;
+  rest_seconds: number | null;
+}
+
+// Settings of a block; blocks saved without a type are straight sets
+export function getBlockSettings(block: Partial<BlockSettings>): BlockSettings {
+  return {
+    block_type: block.block_type || 'straight',
+    time_cap_seconds: block.time_cap_seconds ?? null,
+    interval_seconds: block.interval_seconds ?? null,
+    work_seconds: block.work_seconds ?? null,
+    rest_seconds: block.rest_seconds ?? null
+  };
+}
+
+// Fields for a newly selected type
+export function defaultBlockSettings(type: BlockType): BlockSettings {
+  const base: BlockSettings = {
+    block_type: type,
+    time_cap_seconds: null,
+    interval_seconds: null,
+    work_seconds: null,
+    rest_seconds: null
+  };
+
+  switch (type) {
+    case 'emom':
+      return { ...base, interval_seconds: 60 };
+    case 'amrap':
+      return { ...base, time_cap_seconds: 600 };
+    case 'tabata':
+      return { ...base, work_seconds: 20, rest_seconds: 10 };
+    default:
+      return base;
+  }
+}
+
+// What the rounds count means for each type
+export function roundsLabel(type: BlockType): string {
+  switch (type) {
+    case 'emom':
+      return 'Intervalos';
+    case 'amrap':
+      return 'Rondas objetivo';
+    default:
+      return 'Rondas';
+  }
+}
+
+// Block type plus its timing, e.g. "EMOM · cada 1:00 min"
+export function formatBlockType(block: Partial<BlockSettings>): string {
+  const settings = getBlockSettings(block);
+  const label = BLOCK_TYPES[settings.block_type];
+
+  switch (settings.block_type) {
+    case 'emom':
+      return `${label} · cada ${formatDuration(settings.interval_seconds ?? 60)}`;
+    case 'amrap':
+      return `${label} · ${formatDuration(settings.time_cap_seconds ?? 0)}`;
+    case 'tabata':
+      return `${label} · ${settings.work_seconds ?? 0} s / ${settings.rest_seconds ?? 0} s`;
+    default:
+      return label;
+  }
+}
+
+// Types whose exercises are chained without rest inside a round
+export function restsBetweenRounds(type: BlockType): boolean {
+  return type === 'superset' || type === 'circuit';
+}
+
+// Seconds of rest after an exercise within a round. Supersets and circuits use
+// the rest of the last exercise between rounds, EMOM and AMRAP rest whatever the
+// athlete has left and Tabata uses the block's rest interval. A block's round
+// rest, when set, replaces the rest after the last exercise of every round
+export function restAfterInstance(
+  block: Partial<BlockSettings> & { round_rest_seconds?: number | null; exercise_instances?: { rest: number }[] },
+  instanceIndex: number
+): number {
+  const settings = getBlockSettings(block);
+  const instances = block.exercise_instances || [];
+  const isLast = instanceIndex === instances.length - 1;
+
+  if (isLast && block.round_rest_seconds != null && settings.block_type !== 'emom' && settings.block_type !== 'amrap') {
+    return block.round_rest_seconds;
+  }
+
+  switch (settings.block_type) {
+    case 'superset':
+    case 'circuit':
+      return isLast ? instances[instanceIndex]?.rest ?? 0 : 0;
+    case 'emom':
+    case 'amrap':
+      return 0;
+    case 'tabata':
+      return settings.rest_seconds ?? 0;
+    default:
+      return instances[instanceIndex]?.rest ?? 0;
+  }
+}
+
+// Seconds the block itself gives each exercise, when it times them
+export function blockWorkSeconds(block: Partial<BlockSettings>): number | null {
+  const settings = getBlockSettings(block);
+  if (settings.block_type === 'tabata') return settings.work_seconds;
+  if (settings.block_type === 'emom') return settings.interval_seconds;
+  return null;
+}
+
+// Clean settings of an untrusted block, or an error message
+export function parseBlockSettings(block: Record<string, unknown>): BlockSettings | string {
+  const type = block.block_type ?? 'straight';
+
+  if (typeof type !== 'string' || !(type in BLOCK_TYPES)) {
+    return 'Tipo de bloque inválido';
+  }
+
+  const settings = defaultBlockSettings(type as BlockType);
+
+  switch (type) {
+    case 'emom':
+      if (!isInteger(block.interval_seconds, 1)) return 'El intervalo debe ser un entero de segundos mayor que 0';
+      return { ...settings, interval_seconds: block.interval_seconds };
+    case 'amrap':
+      if (!isInteger(block.time_cap_seconds, 1)) return 'El tiempo límite debe ser un entero de segundos mayor que 0';
+      return { ...settings, time_cap_seconds: block.time_cap_seconds };
+    case 'tabata':
+      if (!isInteger(block.work_seconds, 1)) return 'El trabajo debe ser un entero de segundos mayor que 0';
+      if (!isInteger(block.rest_seconds, 0)) return 'El descanso debe ser un entero de segundos no negativo';
+      return { ...settings, work_seconds: block.work_seconds, rest_seconds: block.rest_seconds };
+    default:
+      return settings;
+  }
+}
@@ -0,0 +1,61 @@
+// Body measurement history. Keep the fields in sync with the columns in
+// supabase/migrations/20261019240000_body_measurements.sql
+
+export const MEASUREMENT_FIELDS = {
+  weight: { label: 'Peso', unit: 'kg' },
+  body_fat_percent: { label: 'Grasa corporal', unit: '%' },
+  waist_cm: { label: 'Cintura', unit: 'cm' },
+  hips_cm: { label: 'Cadera', unit: 'cm' },
+  chest_cm: { label: 'Pecho', unit: 'cm' },
+  arm_cm: { label: 'Brazo', unit: 'cm' },
+  thigh_cm: { label: 'Muslo', unit: 'cm' }
+} as const;
+
+export type MeasurementField = keyof typeof MEASUREMENT_FIELDS;
+
+export const MEASUREMENT_FIELD_KEYS = Object.keys(MEASUREMENT_FIELDS) as MeasurementField[];
+
+export type MeasurementValues = Record<MeasurementField, number | null>;
+
+export interface BodyMeasurement extends MeasurementValues {
+  id: number;
+  user_id: string;
+  measured_on: string; // YYYY-MM-DD
+  created_at: string;
+}
+
+export type MeasurementInput = MeasurementValues & { measured_on: string };
+
+export function formatMeasurement(field: MeasurementField, value: number | null): string {
+  return value === null ? '—' : `${value} ${MEASUREMENT_FIELDS[field].unit}`;
+}
+
+// Newest value recorded for a field; measurements are expected newest first
+export function latestMeasurement(measurements: BodyMeasurement[], field: MeasurementField): number | null {
+  return measurements.find(measurement => measurement[field] !== null)?.[field] ?? null;
+}
+
+// Read the entry form (field → input text) into numbers, or an error message
+export function parseMeasurementForm(measuredOn: string, form: Record<MeasurementField, string>): MeasurementInput | string {
+  if (!measuredOn) return 'Indica la fecha de la medición';
+
+  const values = {} as MeasurementValues;
+  for (const field of MEASUREMENT_FIELD_KEYS) {
+    const text = form[field].trim();
+    const value = text ? parseFloat(text) : null;
+
+    if (value !== null && (isNaN(value) || value <= 0)) {
+      return `${MEASUREMENT_FIELDS[field].label} debe ser un número positivo`;
+    }
+    if (field === 'body_fat_percent' && value !== null && value > 100) {
+      return 'La grasa corporal no puede superar el 100%';
+    }
+    values[field] = value;
+  }
+
+  if (MEASUREMENT_FIELD_KEYS.every(field => values[field] === null)) {
+    return 'Ingresa al menos una medida';
+  }
+
+  return { measured_on: measuredOn, ...values };
+}
@@ -0,0 +1,55 @@
+import { isoDayOfWeek } from '@/lib/programs';
+
+// Date math for the month/week calendar. Weeks run Monday to Sunday, like
+// program weeks, and every date is a local calendar day
+
+export type CalendarView = 'month' | 'week';
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function startOfWeek(date: Date): Date {
+  return addDays(date, 1 - isoDayOfWeek(date));
+}
+
+// The seven days of the week containing date
+export function weekDays(date: Date): Date[] {
+  const monday = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+// Whole weeks covering the month of date, padded with days of the
+// neighbouring months so the grid always starts on a Monday
+export function monthDays(date: Date): Date[] {
+  const first = new Date(date.getFullYear(), date.getMonth(), 1);
+  const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const start = startOfWeek(first);
+  const end = addDays(startOfWeek(last), 6);
+
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Move the visible range one month or one week back (-1) or forward (1)
+export function shiftCalendar(date: Date, view: CalendarView, direction: number): Date {
+  return view === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + direction, 1)
+    : addDays(date, 7 * direction);
+}
+
+export function calendarRange(date: Date, view: CalendarView): Date[] {
+  return view === 'month' ? monthDays(date) : weekDays(date);
+}
+
+export function formatCalendarTitle(date: Date, view: CalendarView): string {
+  if (view === 'month') {
+    return date.toLocaleDateString('es', { month: 'long', year: 'numeric' });
+  }
+
+  const [monday, , , , , , sunday] = weekDays(date);
+  return `${monday.toLocaleDateString('es', { day: 'numeric', month: 'short' })} – ${sunday.toLocaleDateString('es', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+}
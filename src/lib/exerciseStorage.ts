@@ -0,0 +1,31 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type ExerciseMediaFolder = 'videos' | 'images';
+
+// Upload a file to the exercises bucket and return its public URL
+export async function uploadExerciseMedia(
+  supabase: SupabaseClient,
+  folder: ExerciseMediaFolder,
+  file: File
+): Promise<string> {
+  // Generate unique filename
+  const timestamp = Date.now();
+  const fileName = `${timestamp}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+  const path = `${folder}/${fileName}`;
+
+  const { error } = await supabase.storage
+    .from('exercises')
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) {
+    const label = folder === 'videos' ? 'el video' : 'la imagen';
+    throw new Error(`Error al subir ${label}: ${error.message}`);
+  }
+
+  return supabase.storage
+    .from('exercises')
+    .getPublicUrl(path).data.publicUrl;
+}
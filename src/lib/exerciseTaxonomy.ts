@@ -0,0 +1,133 @@
+// Allowed values for the structured exercise metadata. Keep in sync with the
+// check constraints in supabase/migrations/20261019140000_exercise_taxonomy.sql
+
+export const MUSCLE_GROUPS = {
+  chest: 'Pecho',
+  back: 'Espalda',
+  shoulders: 'Hombros',
+  biceps: 'Bíceps',
+  triceps: 'Tríceps',
+  forearms: 'Antebrazos',
+  core: 'Core',
+  glutes: 'Glúteos',
+  quadriceps: 'Cuádriceps',
+  hamstrings: 'Isquiotibiales',
+  adductors: 'Aductores',
+  calves: 'Gemelos',
+  full_body: 'Cuerpo completo'
+} as const;
+
+export const EQUIPMENT = {
+  bodyweight: 'Peso corporal',
+  barbell: 'Barra',
+  dumbbell: 'Mancuernas',
+  kettlebell: 'Kettlebell',
+  machine: 'Máquina',
+  cable: 'Polea',
+  band: 'Banda elástica',
+  trx: 'TRX',
+  medicine_ball: 'Balón medicinal',
+  box: 'Cajón',
+  pullup_bar: 'Barra de dominadas',
+  other: 'Otro'
+} as const;
+
+export const MOVEMENT_PATTERNS = {
+  squat: 'Sentadilla',
+  hinge: 'Bisagra de cadera',
+  lunge: 'Zancada',
+  horizontal_push: 'Empuje horizontal',
+  vertical_push: 'Empuje vertical',
+  horizontal_pull: 'Tracción horizontal',
+  vertical_pull: 'Tracción vertical',
+  carry: 'Acarreo',
+  rotation: 'Rotación',
+  anti_rotation: 'Antirrotación',
+  locomotion: 'Locomoción',
+  isolation: 'Aislamiento'
+} as const;
+
+export const DIFFICULTIES = {
+  beginner: 'Principiante',
+  intermediate: 'Intermedio',
+  advanced: 'Avanzado'
+} as const;
+
+export type MuscleGroup = keyof typeof MUSCLE_GROUPS;
+export type Equipment = keyof typeof EQUIPMENT;
+export type MovementPattern = keyof typeof MOVEMENT_PATTERNS;
+export type Difficulty = keyof typeof DIFFICULTIES;
+
+// Metadata columns stored on each exercise row
+export interface ExerciseTaxonomy {
+  primary_muscle_groups: MuscleGroup[];
+  secondary_muscle_groups: MuscleGroup[];
+  equipment: Equipment[];
+  movement_pattern: MovementPattern | null;
+  difficulty: Difficulty | null;
+  is_unilateral: boolean;
+}
+
+export const EMPTY_TAXONOMY: ExerciseTaxonomy = {
+  primary_muscle_groups: [],
+  secondary_muscle_groups: [],
+  equipment: [],
+  movement_pattern: null,
+  difficulty: null,
+  is_unilateral: false
+};
+
+export const TAXONOMY_COLUMNS =
+  'primary_muscle_groups, secondary_muscle_groups, equipment, movement_pattern, difficulty, is_unilateral';
+
+// Read the taxonomy out of an exercise, filling defaults for rows saved before it existed
+export function getTaxonomy(exercise: Partial<ExerciseTaxonomy>): ExerciseTaxonomy {
+  return {
+    primary_muscle_groups: exercise.primary_muscle_groups || [],
+    secondary_muscle_groups: exercise.secondary_muscle_groups || [],
+    equipment: exercise.equipment || [],
+    movement_pattern: exercise.movement_pattern || null,
+    difficulty: exercise.difficulty || null,
+    is_unilateral: exercise.is_unilateral || false
+  };
+}
+
+// Library and builder filters, an empty value means "any"
+export interface ExerciseFilters {
+  muscleGroup: MuscleGroup | '';
+  equipment: Equipment | '';
+  movementPattern: MovementPattern | '';
+  difficulty: Difficulty | '';
+  unilateral: 'yes' | 'no' | '';
+}
+
+export const EMPTY_FILTERS: ExerciseFilters = {
+  muscleGroup: '',
+  equipment: '',
+  movementPattern: '',
+  difficulty: '',
+  unilateral: ''
+};
+
+export function hasActiveFilters(filters: ExerciseFilters): boolean {
+  return Object.values(filters).some(Boolean);
+}
+
+// A muscle group filter matches exercises that train it as primary or secondary
+export function matchesFilters(exercise: Partial<ExerciseTaxonomy>, filters: ExerciseFilters): boolean {
+  const taxonomy = getTaxonomy(exercise);
+
+  if (
+    filters.muscleGroup &&
+    !taxonomy.primary_muscle_groups.includes(filters.muscleGroup) &&
+    !taxonomy.secondary_muscle_groups.includes(filters.muscleGroup)
+  ) {
+    return false;
+  }
+  if (filters.equipment && !taxonomy.equipment.includes(filters.equipment)) return false;
+  if (filters.movementPattern && taxonomy.movement_pattern !== filters.movementPattern) return false;
+  if (filters.difficulty && taxonomy.difficulty !== filters.difficulty) return false;
+  if (filters.unilateral && taxonomy.is_unilateral !== (filters.unilateral === 'yes')) return false;
+
+  return true;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, escapeText, foldLine } from '@/lib/ical';
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    expect(escapeText('a\\b;c,d')).toBe('a\\\\b\\;c\\,d');
+    expect(escapeText('línea 1\nlínea 2\r\nlínea 3')).toBe('línea 1\\nlínea 2\\nlínea 3');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves a line of exactly 75 octets alone', () => {
+    const line = 'a'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('continues longer lines after a space, 74 octets of content each', () => {
+    const folded = foldLine('a'.repeat(75 + 74 + 1));
+    const lines = folded.split('\r\n');
+
+    expect(lines.map(octets)).toEqual([75, 75, 2]);
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+  });
+
+  it('moves a multi-byte character that would straddle the limit to the next line', () => {
+    // 74 octets + "é" (2 octets) does not fit in 75
+    const lines = foldLine(`${'a'.repeat(74)}é${'b'.repeat(72)}ñ`).split('\r\n');
+
+    expect(lines).toEqual(['a'.repeat(74), ` é${'b'.repeat(72)}`, ' ñ']);
+    expect(lines.map(octets)).toEqual([74, 75, 3]);
+  });
+});
+
+describe('buildCalendar', () => {
+  const calendar = buildCalendar(
+    {
+      name: 'Entrenamientos',
+      events: [{ uid: 'scheduled-1@resiliencepro', date: '2026-12-31', summary: 'Fuerza; piernas, día 1' }]
+    },
+    new Date('2026-10-19T21:00:00Z')
+  );
+
+  it('ends an all-day event on the following day, across a year end', () => {
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20261231\r\n');
+    expect(calendar).toContain('DTEND;VALUE=DATE:20270101\r\n');
+    expect(calendar).toContain('DTSTAMP:20261019T210000Z\r\n');
+  });
+
+  it('escapes text values and ends every line with CRLF', () => {
+    expect(calendar).toContain('SUMMARY:Fuerza\\; piernas\\, día 1\r\n');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+});
@@ -0,0 +1,103 @@
+// Minimal RFC 5545 (iCalendar) writer for all-day events
+
+export interface CalendarEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD, an all-day event
+  summary: string;
+  description?: string;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+}
+
+export interface CalendarFeed {
+  name: string;
+  events: CalendarEvent[];
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// TEXT values escape backslashes, semicolons, commas and newlines (3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+// (3.1). Counts UTF-8 octets and never splits a multi-byte character
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines already spend one octet on the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+// YYYY-MM-DD to the DATE form YYYYMMDD
+export function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// UTC DATE-TIME form, e.g. 20261019T210000Z
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// DTEND of an all-day event is exclusive: the following day
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+export function buildCalendar(feed: CalendarFeed, now: Date = new Date()): string {
+  const stamp = formatDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ResiliencePro//Calendario de entrenamiento//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(feed.name)}`,
+    ...feed.events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  // Every line, including the last one, ends with CRLF
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
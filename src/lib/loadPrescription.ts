@@ -0,0 +1,121 @@
+// Typed load prescription stored in exercise_instances.load. Qualitative values
+// keep the legacy weight strings so migrated routines render the same as before
+
+export const LOAD_MODES = {
+  none: 'Sin carga',
+  qualitative: 'Cualitativa',
+  weight: 'Peso',
+  percent_1rm: '% 1RM',
+  rpe: 'RPE',
+  rir: 'RIR'
+} as const;
+
+export const QUALITATIVE_LOADS = {
+  light: 'Ligero',
+  medium: 'Medio',
+  heavy: 'Pesado',
+  'very heavy': 'Muy pesado'
+} as const;
+
+export const WEIGHT_UNITS = ['kg', 'lb'] as const;
+
+export type LoadMode = keyof typeof LOAD_MODES;
+export type QualitativeLoad = keyof typeof QUALITATIVE_LOADS;
+export type WeightUnit = typeof WEIGHT_UNITS[number];
+
+export type LoadPrescription =
+  | { mode: 'none' }
+  | { mode: 'qualitative'; value: QualitativeLoad }
+  | { mode: 'weight'; value: number; unit: WeightUnit }
+  | { mode: 'percent_1rm'; value: number; unit: '%' }
+  | { mode: 'rpe'; value: number }
+  | { mode: 'rir'; value: number };
+
+export const NO_LOAD: LoadPrescription = { mode: 'none' };
+
+// Accepted numeric range per mode
+const NUMERIC_RANGES: Record<'weight' | 'percent_1rm' | 'rpe' | 'rir', [number, number]> = {
+  weight: [0, 1000],
+  percent_1rm: [1, 150],
+  rpe: [1, 10],
+  rir: [0, 10]
+};
+
+// Starting value when the trainer switches to a mode in the builder
+export function defaultLoad(mode: LoadMode): LoadPrescription {
+  switch (mode) {
+    case 'qualitative':
+      return { mode, value: 'medium' };
+    case 'weight':
+      return { mode, value: 20, unit: 'kg' };
+    case 'percent_1rm':
+      return { mode, value: 70, unit: '%' };
+    case 'rpe':
+      return { mode, value: 8 };
+    case 'rir':
+      return { mode, value: 2 };
+    default:
+      return NO_LOAD;
+  }
+}
+
+export function formatLoad(load: LoadPrescription | null | undefined): string | null {
+  if (!load) return null;
+
+  switch (load.mode) {
+    case 'qualitative':
+      return QUALITATIVE_LOADS[load.value] || load.value;
+    case 'weight':
+      return `${load.value} ${load.unit}`;
+    case 'percent_1rm':
+      return `${load.value}% 1RM`;
+    case 'rpe':
+      return `RPE ${load.value}`;
+    case 'rir':
+      return `${load.value} RIR`;
+    default:
+      return null;
+  }
+}
+
+// Check an untrusted value (API body, jsonb column) and return a clean prescription
+export function parseLoad(value: unknown): LoadPrescription | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const { mode, value: amount, unit } = value as Record<string, unknown>;
+
+  switch (mode) {
+    case 'none':
+      return NO_LOAD;
+    case 'qualitative':
+      return typeof amount === 'string' && amount in QUALITATIVE_LOADS
+        ? { mode, value: amount as QualitativeLoad }
+        : null;
+    case 'weight':
+    case 'percent_1rm':
+    case 'rpe':
+    case 'rir': {
+      const [min, max] = NUMERIC_RANGES[mode];
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < min || amount > max) {
+        return null;
+      }
+      if (mode === 'weight') {
+        return WEIGHT_UNITS.includes(unit as WeightUnit) ? { mode, value: amount, unit: unit as WeightUnit } : null;
+      }
+      if (mode === 'percent_1rm') return { mode, value: amount, unit: '%' };
+      return { mode, value: amount };
+    }
+    default:
+      return null;
+  }
+}
+
+export function numericRange(mode: 'weight' | 'percent_1rm' | 'rpe' | 'rir'): [number, number] {
+  return NUMERIC_RANGES[mode];
+}
+
+// Suggested kg for the set logging form when the prescription is an absolute weight
+export function prescribedKg(load: LoadPrescription | null | undefined): number | null {
+  if (!load || load.mode !== 'weight') return null;
+  return load.unit === 'kg' ? load.value : Math.round(load.value * 0.4536 * 2) / 2;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { computeRecords, estimateOneRepMax, findNewRecords, RecordLog } from '@/lib/personalRecords';
+
+const log = (id: number, weight: number | null, reps: number | null, sessionId = 1): RecordLog => ({
+  id,
+  session_id: sessionId,
+  reps,
+  weight,
+  completed_at: `2026-10-${String(id).padStart(2, '0')}T10:00:00Z`
+});
+
+describe('estimateOneRepMax', () => {
+  it('uses the chosen formula and counts a single as its own 1RM', () => {
+    expect(estimateOneRepMax(100, 5, 'epley')).toBe(116.7);
+    expect(estimateOneRepMax(100, 5, 'brzycki')).toBe(112.5);
+    expect(estimateOneRepMax(100, 1, 'brzycki')).toBe(100);
+  });
+
+  it('has no estimate without load or reps, or past the Brzycki range', () => {
+    expect(estimateOneRepMax(0, 5)).toBeNull();
+    expect(estimateOneRepMax(100, 0)).toBeNull();
+    expect(estimateOneRepMax(20, 37, 'brzycki')).toBeNull();
+    expect(estimateOneRepMax(20, 40, 'epley')).toBe(46.7);
+  });
+});
+
+describe('computeRecords', () => {
+  it('keeps the first set logged when two sets tie', () => {
+    const records = computeRecords([log(1, 100, 5), log(2, 100, 5, 2)]);
+
+    expect(records.bestWeight).toEqual({ value: 100, log: log(1, 100, 5) });
+    expect(records.bestE1rm?.log.id).toBe(1);
+    expect(records.bestVolume?.log.id).toBe(1);
+    expect(records.repsAtWeight).toEqual([{ weight: 100, reps: 5, log: log(1, 100, 5) }]);
+  });
+
+  it('picks the best estimated 1RM with the chosen formula', () => {
+    // Epley: 116.7 vs 112; Brzycki: 112.5 vs 115.2
+    const logs = [log(1, 100, 5), log(2, 80, 12)];
+
+    expect(computeRecords(logs, 'epley').bestE1rm).toEqual({ value: 116.7, log: logs[0] });
+    expect(computeRecords(logs, 'brzycki').bestE1rm).toEqual({ value: 115.2, log: logs[1] });
+  });
+
+  it('sums volume per session and points at its heaviest set', () => {
+    const records = computeRecords([log(1, 60, 10), log(2, 80, 5), log(3, 100, 3, 2)]);
+
+    expect(records.bestVolume).toEqual({ value: 1000, log: log(2, 80, 5) });
+    expect(records.repsAtWeight.map(entry => entry.weight)).toEqual([100, 80, 60]);
+  });
+
+  it('ignores sets with zero or missing reps or load', () => {
+    const records = computeRecords([log(1, 100, 0), log(2, 100, null), log(3, 0, 10), log(4, null, 10)]);
+
+    expect(records).toEqual({ bestWeight: null, bestE1rm: null, bestVolume: null, repsAtWeight: [] });
+  });
+});
+
+describe('findNewRecords', () => {
+  it('reports the records a session beats, heaviest rep PR only', () => {
+    const found = findNewRecords([log(1, 100, 5)], [log(2, 100, 6, 2), log(3, 90, 8, 2)]);
+
+    expect(found).toEqual([
+      { kind: 'e1rm', value: 120, previous: 116.7 },
+      { kind: 'volume', value: 1320, previous: 500 },
+      { kind: 'reps_at_weight', value: 6, previous: 5, weight: 100 }
+    ]);
+  });
+
+  it('does not report a tie as a record', () => {
+    expect(findNewRecords([log(1, 100, 5)], [log(2, 100, 5, 2)])).toEqual([]);
+  });
+
+  it('follows the formula when comparing estimated 1RMs', () => {
+    const previous = [log(1, 100, 5)];
+    const session = [log(2, 80, 12, 2)];
+
+    expect(findNewRecords(previous, session, 'epley').map(record => record.kind)).not.toContain('e1rm');
+    expect(findNewRecords(previous, session, 'brzycki')).toContainEqual({ kind: 'e1rm', value: 115.2, previous: 112.5 });
+  });
+
+  it('flags nothing after bodyweight-only history, and bodyweight sets beat nothing', () => {
+    const bodyweight = [log(1, null, 20), log(2, 0, 25)];
+
+    expect(findNewRecords(bodyweight, [log(3, 20, 10, 2)])).toEqual([]);
+    expect(findNewRecords([log(3, 20, 10)], [log(4, null, 50, 2)])).toEqual([]);
+  });
+});
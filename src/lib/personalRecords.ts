@@ -0,0 +1,164 @@
+import { SetLog } from '@/hooks/useWorkoutSessions';
+
+// Personal records of one exercise, derived from logged sets. Only sets with
+// both reps and weight count: bodyweight or timed sets have nothing to compare
+
+export const ONE_REP_MAX_FORMULAS = {
+  epley: 'Epley',
+  brzycki: 'Brzycki'
+} as const;
+
+export type OneRepMaxFormula = keyof typeof ONE_REP_MAX_FORMULAS;
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+
+export const RECORD_KINDS = {
+  weight: 'Peso máximo',
+  e1rm: '1RM estimado',
+  volume: 'Volumen en una sesión',
+  reps_at_weight: 'Repeticiones con un peso'
+} as const;
+
+export type RecordKind = keyof typeof RECORD_KINDS;
+
+export type RecordLog = Pick<SetLog, 'id' | 'session_id' | 'reps' | 'weight' | 'completed_at'>;
+
+// A set that holds a record, with the value it set
+export interface RecordEntry {
+  value: number;
+  log: RecordLog;
+}
+
+export interface RepsAtWeight {
+  weight: number;
+  reps: number;
+  log: RecordLog;
+}
+
+export interface ExerciseRecords {
+  bestWeight: RecordEntry | null;
+  bestE1rm: RecordEntry | null;
+  bestVolume: RecordEntry | null; // log is the heaviest set of that session
+  repsAtWeight: RepsAtWeight[]; // heaviest first
+}
+
+export interface NewRecord {
+  kind: RecordKind;
+  value: number;
+  previous: number;
+  weight?: number; // for reps_at_weight
+}
+
+type WeightedLog = RecordLog & { reps: number; weight: number };
+
+const isWeighted = (log: RecordLog): log is WeightedLog =>
+  log.reps !== null && log.reps > 0 && log.weight !== null && log.weight > 0;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Estimated one-rep max; a single is its own 1RM. Brzycki is undefined from 37 reps
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): number | null {
+  if (weight <= 0 || reps < 1) return null;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case 'brzycki':
+      return reps < 37 ? round1((weight * 36) / (37 - reps)) : null;
+    case 'epley':
+    default:
+      return round1(weight * (1 + reps / 30));
+  }
+}
+
+function best(entries: RecordEntry[]): RecordEntry | null {
+  return entries.reduce<RecordEntry | null>((top, entry) => (!top || entry.value > top.value ? entry : top), null);
+}
+
+export function computeRecords(logs: RecordLog[], formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): ExerciseRecords {
+  const weighted = logs.filter(isWeighted);
+
+  const bestWeight = best(weighted.map(log => ({ value: log.weight, log })));
+
+  const bestE1rm = best(weighted.flatMap(log => {
+    const value = estimateOneRepMax(log.weight, log.reps, formula);
+    return value === null ? [] : [{ value, log }];
+  }));
+
+  // Tonnage (weight × reps) summed per session
+  const sessions = new Map<number, { volume: number; top: WeightedLog }>();
+  weighted.forEach(log => {
+    const entry = sessions.get(log.session_id);
+    const volume = log.weight * log.reps;
+    if (!entry) {
+      sessions.set(log.session_id, { volume, top: log });
+    } else {
+      entry.volume += volume;
+      if (log.weight > entry.top.weight) entry.top = log;
+    }
+  });
+  const bestVolume = best([...sessions.values()].map(({ volume, top }) => ({ value: round1(volume), log: top })));
+
+  const byWeight = new Map<number, RepsAtWeight>();
+  weighted.forEach(log => {
+    const current = byWeight.get(log.weight);
+    if (!current || log.reps > current.reps) {
+      byWeight.set(log.weight, { weight: log.weight, reps: log.reps, log });
+    }
+  });
+  const repsAtWeight = [...byWeight.values()].sort((a, b) => b.weight - a.weight);
+
+  return { bestWeight, bestE1rm, bestVolume, repsAtWeight };
+}
+
+// Most reps done with at least this weight, which is what a rep PR has to beat
+function repsToBeat(records: ExerciseRecords, weight: number): number {
+  return records.repsAtWeight
+    .filter(entry => entry.weight >= weight)
+    .reduce((max, entry) => Math.max(max, entry.reps), 0);
+}
+
+// Records a session's sets beat compared with everything logged before it.
+// Nothing is flagged the first time an exercise is logged: there is no
+// previous mark to beat
+export function findNewRecords(previousLogs: RecordLog[], sessionLogs: RecordLog[], formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): NewRecord[] {
+  const before = computeRecords(previousLogs, formula);
+  if (!before.bestWeight) return [];
+
+  const current = computeRecords(sessionLogs, formula);
+  const found: NewRecord[] = [];
+
+  const compare = (kind: RecordKind, previous: RecordEntry | null, next: RecordEntry | null) => {
+    if (previous && next && next.value > previous.value) {
+      found.push({ kind, value: next.value, previous: previous.value });
+    }
+  };
+
+  compare('weight', before.bestWeight, current.bestWeight);
+  compare('e1rm', before.bestE1rm, current.bestE1rm);
+  compare('volume', before.bestVolume, current.bestVolume);
+
+  // Only the heaviest rep PR is worth reporting
+  const repRecord = current.repsAtWeight.find(entry => {
+    const previous = repsToBeat(before, entry.weight);
+    return previous > 0 && entry.reps > previous;
+  });
+  if (repRecord) {
+    found.push({
+      kind: 'reps_at_weight',
+      value: repRecord.reps,
+      previous: repsToBeat(before, repRecord.weight),
+      weight: repRecord.weight
+    });
+  }
+
+  return found;
+}
+
+export function formatRecord(record: Pick<NewRecord, 'kind' | 'value' | 'weight'>): string {
+  switch (record.kind) {
+    case 'reps_at_weight':
+      return `${record.value} reps con ${record.weight} kg`;
+    default:
+      return `${record.value} kg`;
+  }
+}
@@ -0,0 +1,34 @@
+// Profile fields shared by the athlete's own profile page and the trainer's
+// view of a client
+
+export const PREFERRED_WORKOUT_TIMES = {
+  morning: 'Mañana',
+  afternoon: 'Tarde',
+  evening: 'Noche',
+  night: 'Madrugada'
+} as const;
+
+export type PreferredWorkoutTime = keyof typeof PREFERRED_WORKOUT_TIMES;
+
+export interface Profile {
+  id: number;
+  uuid: string;
+  email: string;
+  name?: string;
+  image?: string;
+  phone?: string;
+  providers?: string[];
+  provider_type?: string;
+  last_sign_in_at?: string;
+  height?: number;
+  weight?: number;
+  date_of_birth?: string;
+  preferred_workout_time?: string[];
+}
+
+// Whole years between a YYYY-MM-DD birth date and today
+export function ageFromDateOfBirth(dateOfBirth: string, today: Date = new Date()): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
@@ -0,0 +1,155 @@
+import { Workout } from '@/hooks/useWorkouts';
+import { LoadPrescription } from '@/lib/loadPrescription';
+import { getPrescription } from '@/lib/setPrescription';
+
+// Multi-week programs: a grid of weeks × days where each slot points at a
+// workout, plus optional weekly progression applied on top of the workouts
+
+export const DAYS_OF_WEEK = {
+  1: 'Lunes',
+  2: 'Martes',
+  3: 'Miércoles',
+  4: 'Jueves',
+  5: 'Viernes',
+  6: 'Sábado',
+  7: 'Domingo'
+} as const;
+
+export type DayOfWeek = keyof typeof DAYS_OF_WEEK;
+
+export const DAY_NUMBERS = Object.keys(DAYS_OF_WEEK).map(Number) as DayOfWeek[];
+
+export interface ProgressionRules {
+  weekly_load_increment_kg: number | null;
+  weekly_reps_increment: number | null;
+}
+
+export interface ProgramDay {
+  id: number;
+  program_id: number;
+  week: number;
+  day_of_week: DayOfWeek;
+  workout_id: number;
+  workout?: Workout;
+}
+
+export interface Program extends ProgressionRules {
+  id: number;
+  name: string;
+  description?: string | null;
+  weeks: number;
+  created_by: string;
+  created_at: string;
+  program_days?: ProgramDay[];
+}
+
+export interface UserProgram {
+  id: number;
+  user_id: string;
+  program_id: number;
+  trainer_id: string;
+  start_date: string; // YYYY-MM-DD
+  program?: Program;
+}
+
+// Where a client is in a program on a given date. Weeks run Monday to Sunday
+// starting with the week that contains start_date
+export interface ProgramPosition {
+  week: number;
+  day_of_week: DayOfWeek;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Parse a date-only column as a local date, new Date('YYYY-MM-DD') would be UTC
+export function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toDateOnly(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// ISO day of week, 1 = Monday ... 7 = Sunday
+export function isoDayOfWeek(date: Date): DayOfWeek {
+  return (((date.getDay() + 6) % 7) + 1) as DayOfWeek;
+}
+
+// Position in the program on a date, or null before it starts or after it ends
+export function programPosition(startDate: string, weeks: number, date: Date = new Date()): ProgramPosition | null {
+  const start = parseDateOnly(startDate);
+  const startMonday = new Date(start.getFullYear(), start.getMonth(), start.getDate() - (isoDayOfWeek(start) - 1));
+  const today = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (today < start) return null;
+
+  // Round to absorb daylight saving shifts
+  const days = Math.round((today.getTime() - startMonday.getTime()) / MS_PER_DAY);
+  const week = Math.floor(days / 7) + 1;
+
+  return week <= weeks ? { week, day_of_week: isoDayOfWeek(today) } : null;
+}
+
+export function findProgramDay(program: Program, position: ProgramPosition): ProgramDay | undefined {
+  return (program.program_days || []).find(day =>
+    day.week === position.week && day.day_of_week === position.day_of_week
+  );
+}
+
+export function hasProgression(rules: ProgressionRules): boolean {
+  return Boolean(rules.weekly_load_increment_kg || rules.weekly_reps_increment);
+}
+
+// "+2.5 kg / semana · +1 rep / semana"
+export function formatProgression(rules: ProgressionRules): string | null {
+  const parts: string[] = [];
+  if (rules.weekly_load_increment_kg) {
+    parts.push(`${rules.weekly_load_increment_kg > 0 ? '+' : ''}${rules.weekly_load_increment_kg} kg / semana`);
+  }
+  if (rules.weekly_reps_increment) {
+    parts.push(`${rules.weekly_reps_increment > 0 ? '+' : ''}${rules.weekly_reps_increment} ${Math.abs(rules.weekly_reps_increment) === 1 ? 'rep' : 'reps'} / semana`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+// Absolute weights grow by the weekly increment (converted for lb), other load modes stay as written
+function progressLoad(load: LoadPrescription | null | undefined, kg: number): LoadPrescription | undefined {
+  if (!load || load.mode !== 'weight' || kg === 0) return load ?? undefined;
+
+  const increment = load.unit === 'kg' ? kg : Math.round((kg / 0.4536) * 2) / 2;
+  return { ...load, value: Math.max(0, load.value + increment) };
+}
+
+// The workout as prescribed in a given week (1-based): week 1 is the workout as written
+export function applyProgression(workout: Workout, rules: ProgressionRules, week: number): Workout {
+  const steps = week - 1;
+  if (steps <= 0 || !hasProgression(rules)) return workout;
+
+  const kg = (rules.weekly_load_increment_kg || 0) * steps;
+  const reps = (rules.weekly_reps_increment || 0) * steps;
+
+  return {
+    ...workout,
+    blocks: workout.blocks?.map(block => ({
+      ...block,
+      exercise_instances: block.exercise_instances?.map(instance => {
+        const prescription = getPrescription(instance);
+        const countsReps = prescription.prescription_type === 'reps' || prescription.prescription_type === 'reps_range';
+
+        return {
+          ...instance,
+          reps: countsReps ? Math.max(1, instance.reps + reps) : instance.reps,
+          reps_max: countsReps && prescription.reps_max !== null ? Math.max(1, prescription.reps_max + reps) : instance.reps_max,
+          load: progressLoad(instance.load, kg),
+          round_overrides: instance.round_overrides?.map(override => ({
+            reps: override.reps !== null && countsReps ? Math.max(1, override.reps + reps) : override.reps,
+            load: override.load ? progressLoad(override.load, kg) ?? null : null
+          }))
+        };
+      })
+    }))
+  };
+}
@@ -0,0 +1,112 @@
+import { SetLog, WorkoutSession } from '@/hooks/useWorkoutSessions';
+import { ScheduledWorkout } from '@/hooks/useScheduledWorkouts';
+import { addDays, startOfWeek } from '@/lib/calendar';
+import { toDateOnly } from '@/lib/programs';
+import { DEFAULT_ONE_REP_MAX_FORMULA, estimateOneRepMax, OneRepMaxFormula } from '@/lib/personalRecords';
+
+// Training statistics for the home dashboard. Only finished sessions count,
+// and weeks run Monday to Sunday like the calendar
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ExerciseProgressPoint {
+  date: string; // YYYY-MM-DD of the session
+  topSet: number; // heaviest weight lifted
+  e1rm: number; // best estimated 1RM of the session
+}
+
+type FinishedSession = WorkoutSession & { finished_at: string };
+
+const isFinished = (session: WorkoutSession): session is FinishedSession => Boolean(session.finished_at);
+
+const weekKey = (date: Date) => toDateOnly(startOfWeek(date));
+
+// Weight × reps of every set that has both
+export function setTonnage(log: Pick<SetLog, 'reps' | 'weight'>): number {
+  return log.reps !== null && log.weight !== null ? log.reps * log.weight : 0;
+}
+
+export function sessionTonnage(session: WorkoutSession): number {
+  return (session.set_logs || []).reduce((total, log) => total + setTonnage(log), 0);
+}
+
+export function sessionsThisWeek(sessions: WorkoutSession[], today: Date = new Date()): number {
+  const current = weekKey(today);
+  return sessions.filter(isFinished).filter(session => weekKey(new Date(session.finished_at)) === current).length;
+}
+
+// Consecutive weeks with at least one finished session. The current week
+// doesn't break the streak until it is over
+export function weeklyStreak(sessions: WorkoutSession[], today: Date = new Date()): number {
+  const trained = new Set(sessions.filter(isFinished).map(session => weekKey(new Date(session.finished_at))));
+
+  let week = startOfWeek(today);
+  if (!trained.has(toDateOnly(week))) week = addDays(week, -7);
+
+  let streak = 0;
+  while (trained.has(toDateOnly(week))) {
+    streak++;
+    week = addDays(week, -7);
+  }
+  return streak;
+}
+
+// Tonnage per week for the last `weeks` weeks, oldest first, including empty weeks
+export function weeklyTonnage(sessions: WorkoutSession[], weeks: number = 8, today: Date = new Date()): ChartPoint[] {
+  const totals = new Map<string, number>();
+  sessions.filter(isFinished).forEach(session => {
+    const key = weekKey(new Date(session.finished_at));
+    totals.set(key, (totals.get(key) || 0) + sessionTonnage(session));
+  });
+
+  const current = startOfWeek(today);
+  return Array.from({ length: weeks }, (_, index) => {
+    const week = addDays(current, -7 * (weeks - 1 - index));
+    return {
+      label: week.toLocaleDateString('es', { day: 'numeric', month: 'short' }),
+      value: Math.round(totals.get(toDateOnly(week)) || 0)
+    };
+  });
+}
+
+// Top set and best estimated 1RM of an exercise in each session, oldest first
+export function exerciseProgress(sessions: WorkoutSession[], exerciseId: number, formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): ExerciseProgressPoint[] {
+  return sessions
+    .filter(isFinished)
+    .flatMap(session => {
+      const logs = (session.set_logs || []).filter(log =>
+        log.exercise_id === exerciseId && log.reps !== null && log.reps > 0 && log.weight !== null && log.weight > 0
+      );
+      if (logs.length === 0) return [];
+
+      return [{
+        date: toDateOnly(new Date(session.finished_at)),
+        topSet: Math.max(...logs.map(log => log.weight ?? 0)),
+        e1rm: Math.max(...logs.map(log => estimateOneRepMax(log.weight ?? 0, log.reps ?? 0, formula) ?? 0))
+      }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface Adherence {
+  completed: number;
+  missed: number;
+  rate: number | null; // 0-100, null when nothing was due
+}
+
+// Share of the workouts scheduled before today that were completed. Entries
+// still planned after their date count as missed
+export function scheduleAdherence(entries: Pick<ScheduledWorkout, 'scheduled_for' | 'status'>[], today: Date = new Date()): Adherence {
+  const due = entries.filter(entry => entry.scheduled_for < toDateOnly(today));
+  const completed = due.filter(entry => entry.status === 'completed').length;
+  const missed = due.length - completed;
+
+  return {
+    completed,
+    missed,
+    rate: due.length > 0 ? Math.round((completed / due.length) * 100) : null
+  };
+}
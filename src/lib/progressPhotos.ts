@@ -0,0 +1,83 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Dated progress photos kept in the private progress-photos bucket. Files live
+// under <user_id>/ so storage policies can tell who owns them
+
+export const PROGRESS_PHOTOS_BUCKET = 'progress-photos';
+
+export const PHOTO_POSES = {
+  front: 'Frente',
+  side: 'Perfil',
+  back: 'Espalda'
+} as const;
+
+export type PhotoPose = keyof typeof PHOTO_POSES;
+
+export const PHOTO_POSE_KEYS = Object.keys(PHOTO_POSES) as PhotoPose[];
+
+// Signed URLs are short-lived; an hour covers a browsing session
+export const SIGNED_URL_SECONDS = 60 * 60;
+
+export interface ProgressPhoto {
+  id: number;
+  user_id: string;
+  taken_on: string; // YYYY-MM-DD
+  pose: PhotoPose;
+  storage_path: string;
+  created_at: string;
+  url?: string; // signed URL, filled in after fetching
+}
+
+export interface PhotoDay {
+  date: string;
+  photos: Partial<Record<PhotoPose, ProgressPhoto>>;
+}
+
+// One entry per date, newest first
+export function groupPhotosByDate(photos: ProgressPhoto[]): PhotoDay[] {
+  const days = new Map<string, PhotoDay>();
+  photos.forEach(photo => {
+    const day = days.get(photo.taken_on) || { date: photo.taken_on, photos: {} };
+    day.photos[photo.pose] = photo;
+    days.set(photo.taken_on, day);
+  });
+  return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// Upload a photo for a date and pose and return its storage path
+export async function uploadProgressPhoto(
+  supabase: SupabaseClient,
+  userId: string,
+  takenOn: string,
+  pose: PhotoPose,
+  file: File
+): Promise<string> {
+  const fileExt = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${userId}/${takenOn}/${pose}-${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PROGRESS_PHOTOS_BUCKET)
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) throw new Error(`Error al subir la foto: ${error.message}`);
+
+  return path;
+}
+
+// Signed URL for each storage path; paths that can't be signed are left out
+export async function signPhotoUrls(supabase: SupabaseClient, paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(PROGRESS_PHOTOS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+  if (error) throw new Error(`Error al obtener las fotos: ${error.message}`);
+
+  return Object.fromEntries((data || []).flatMap(item =>
+    item.path && item.signedUrl ? [[item.path, item.signedUrl]] : []
+  ));
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Block, ExerciseInstance, Workout } from '@/hooks/useWorkouts';
+import { buildSessionSteps, enterStep, findNextExerciseStep, stepSeconds } from '@/lib/sessionSteps';
+
+const instance = (id: number, fields: Partial<ExerciseInstance> = {}): ExerciseInstance => ({
+  id,
+  reps: 10,
+  rest: 60,
+  block_id: 1,
+  exercise_id: id,
+  ...fields
+});
+
+const block = (id: number, fields: Partial<Block>): Block => ({
+  id,
+  name: `Bloque ${id}`,
+  rounds: 1,
+  workout_id: 1,
+  ...fields
+});
+
+const workout = (blocks: Block[]): Workout => ({ id: 1, name: 'Rutina', created_at: '2026-10-19T00:00:00Z', blocks });
+
+describe('buildSessionSteps', () => {
+  it('puts each rest after its set and drops the rest after the last set', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, { rounds: 2, exercise_instances: [instance(1)] })
+    ]));
+
+    expect(steps.map(step => [step.kind, step.round])).toEqual([
+      ['exercise', 1],
+      ['rest', 1],
+      ['exercise', 2]
+    ]);
+  });
+
+  it('only rests after the last exercise of a superset round', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, {
+        block_type: 'superset',
+        rounds: 2,
+        exercise_instances: [instance(1, { rest: 30 }), instance(2, { rest: 90 })]
+      })
+    ]));
+
+    expect(steps.map(step => step.kind)).toEqual(['exercise', 'exercise', 'rest', 'exercise', 'exercise']);
+    expect(steps[2].seconds).toBe(90);
+  });
+
+  it('applies round overrides to each round', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, {
+        rounds: 2,
+        exercise_instances: [instance(1, { round_overrides: [{ reps: 12, load: null }, { reps: 8, load: null }] })]
+      })
+    ]));
+
+    const reps = steps.flatMap(step => step.kind === 'exercise' ? [step.instance.reps] : []);
+    expect(reps).toEqual([12, 8]);
+  });
+
+  it('gives EMOM and Tabata sets the block work time', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, { block_type: 'emom', interval_seconds: 60, rounds: 2, exercise_instances: [instance(1)] }),
+      block(2, { block_type: 'tabata', work_seconds: 20, rest_seconds: 10, rounds: 2, exercise_instances: [instance(2)] })
+    ]));
+
+    expect(steps.map(step => [step.kind, step.seconds])).toEqual([
+      ['exercise', 60],
+      ['exercise', 60],
+      ['exercise', 20],
+      ['rest', 10],
+      ['exercise', 20]
+    ]);
+  });
+
+  it('finds the next exercise past any rest', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, { exercise_instances: [instance(1), instance(2)] })
+    ]));
+
+    expect(findNextExerciseStep(steps, 0)?.instance.id).toBe(2);
+    expect(findNextExerciseStep(steps, 2)).toBeUndefined();
+  });
+});
+
+describe('stepSeconds', () => {
+  it('counts down rests, block work time and timed sets only', () => {
+    const steps = buildSessionSteps(workout([
+      block(1, { exercise_instances: [instance(1), instance(2, { prescription_type: 'duration', duration_seconds: 45 })] })
+    ]));
+
+    expect(steps.map(stepSeconds)).toEqual([0, 60, 45]);
+    expect(stepSeconds(undefined)).toBe(0);
+  });
+});
+
+describe('enterStep', () => {
+  // Superset: no rest between the two exercises, so logging the first set
+  // moves straight into the timed one
+  const steps = buildSessionSteps(workout([
+    block(1, {
+      block_type: 'superset',
+      exercise_instances: [instance(1), instance(2, { prescription_type: 'duration', duration_seconds: 45 })]
+    }),
+    block(2, { block_type: 'emom', interval_seconds: 90, exercise_instances: [instance(3)] })
+  ]));
+
+  it('opens a timed set reached by logging a set with its full time, stopped', () => {
+    expect(enterStep(steps, 1)).toEqual({ stepIndex: 1, remaining: 45, isSetTimerRunning: false });
+  });
+
+  it('opens an EMOM interval with the block interval', () => {
+    const rest = steps.findIndex(step => step.kind === 'rest');
+    expect(enterStep(steps, rest + 1)).toEqual({ stepIndex: rest + 1, remaining: 90, isSetTimerRunning: false });
+  });
+
+  it('clamps to the finished state past the last step', () => {
+    expect(enterStep(steps, steps.length + 3)).toEqual({ stepIndex: steps.length, remaining: 0, isSetTimerRunning: false });
+    expect(enterStep(steps, -1).stepIndex).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { Block, ExerciseInstance, Workout } from '@/hooks/useWorkouts';
+import { blockWorkSeconds, restAfterInstance } from '@/lib/blockTypes';
+import { forRound } from '@/lib/setVariation';
+import { timedSetSeconds } from '@/lib/setPrescription';
+
+export interface ExerciseStep {
+  kind: 'exercise';
+  block: Block;
+  blockIndex: number;
+  round: number; // 1-based
+  instance: ExerciseInstance; // with the round's overrides applied
+  instanceIndex: number;
+  seconds: number | null; // work time set by the block (EMOM interval, Tabata work)
+}
+
+export interface RestStep {
+  kind: 'rest';
+  block: Block;
+  round: number;
+  seconds: number;
+}
+
+export type SessionStep = ExerciseStep | RestStep;
+
+// Flatten a workout into the ordered list of sets and rests an athlete goes through
+export function buildSessionSteps(workout: Workout): SessionStep[] {
+  const steps: SessionStep[] = [];
+
+  (workout.blocks || []).forEach((block, blockIndex) => {
+    const instances = block.exercise_instances || [];
+    const seconds = blockWorkSeconds(block);
+
+    for (let round = 1; round <= block.rounds; round++) {
+      instances.forEach((instance, instanceIndex) => {
+        steps.push({ kind: 'exercise', block, blockIndex, round, instance: forRound(instance, round), instanceIndex, seconds });
+
+        const rest = restAfterInstance(block, instanceIndex);
+        if (rest > 0) {
+          steps.push({ kind: 'rest', block, round, seconds: rest });
+        }
+      });
+    }
+  });
+
+  // No point resting after the very last set
+  if (steps.length > 0 && steps[steps.length - 1].kind === 'rest') {
+    steps.pop();
+  }
+
+  return steps;
+}
+
+// Seconds to count down on a step: the rest itself, the work time the block
+// sets or the duration of a timed set
+export function stepSeconds(step: SessionStep | undefined): number {
+  if (!step) return 0;
+  return step.kind === 'rest' ? step.seconds : step.seconds ?? timedSetSeconds(step.instance) ?? 0;
+}
+
+export interface StepTimer {
+  stepIndex: number;
+  remaining: number;
+  isSetTimerRunning: boolean;
+}
+
+// Timer state on entering a step. Rests count down on their own, timed sets
+// wait until the athlete starts them
+export function enterStep(steps: SessionStep[], index: number): StepTimer {
+  const stepIndex = Math.max(0, Math.min(index, steps.length));
+  return { stepIndex, remaining: stepSeconds(steps[stepIndex]), isSetTimerRunning: false };
+}
+
+// Find the first exercise step after the given index, used for the "next up" preview
+export function findNextExerciseStep(steps: SessionStep[], fromIndex: number): ExerciseStep | undefined {
+  for (let i = fromIndex + 1; i < steps.length; i++) {
+    const step = steps[i];
+    if (step.kind === 'exercise') return step;
+  }
+  return undefined;
+}
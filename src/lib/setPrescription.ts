@@ -0,0 +1,140 @@
+import { isInteger } from '@/lib/utils';
+
+// What an athlete has to do in each set of an exercise instance. `reps` is the
+// lower bound for reps_range; AMRAP may carry an optional time cap in duration_seconds
+
+export const PRESCRIPTION_TYPES = {
+  reps: 'Repeticiones',
+  reps_range: 'Rango de reps',
+  duration: 'Duración',
+  distance: 'Distancia',
+  amrap: 'AMRAP'
+} as const;
+
+export type PrescriptionType = keyof typeof PRESCRIPTION_TYPES;
+
+export interface SetPrescription {
+  prescription_type: PrescriptionType;
+  reps: number;
+  reps_max: number | null;
+  duration_seconds: number | null;
+  distance_meters: number | null;
+}
+
+// Prescription of an instance; older rows default to plain reps
+export function getPrescription(instance: Partial<SetPrescription> & { reps: number }): SetPrescription {
+  return {
+    prescription_type: instance.prescription_type || 'reps',
+    reps: instance.reps,
+    reps_max: instance.reps_max ?? null,
+    duration_seconds: instance.duration_seconds ?? null,
+    distance_meters: instance.distance_meters ?? null
+  };
+}
+
+// Fields for a newly selected type, keeping the current reps as a starting point
+export function defaultPrescription(type: PrescriptionType, reps: number): SetPrescription {
+  const base: SetPrescription = {
+    prescription_type: type,
+    reps,
+    reps_max: null,
+    duration_seconds: null,
+    distance_meters: null
+  };
+
+  switch (type) {
+    case 'reps_range':
+      return { ...base, reps_max: reps + 4 };
+    case 'duration':
+      return { ...base, duration_seconds: 30 };
+    case 'distance':
+      return { ...base, distance_meters: 400 };
+    default:
+      return base;
+  }
+}
+
+// Format seconds as "45 s" under a minute and "m:ss" above
+export function formatDuration(totalSeconds: number): string {
+  if (totalSeconds < 60) return `${totalSeconds} s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')} min`;
+}
+
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${+(meters / 1000).toFixed(2)} km` : `${meters} m`;
+}
+
+export function formatPrescription(instance: Partial<SetPrescription> & { reps: number }): string {
+  const prescription = getPrescription(instance);
+
+  switch (prescription.prescription_type) {
+    case 'reps_range':
+      return `${prescription.reps}–${prescription.reps_max ?? prescription.reps} reps`;
+    case 'duration':
+      return formatDuration(prescription.duration_seconds ?? 0);
+    case 'distance':
+      return formatDistance(prescription.distance_meters ?? 0);
+    case 'amrap':
+      return prescription.duration_seconds
+        ? `AMRAP ${formatDuration(prescription.duration_seconds)}`
+        : 'AMRAP';
+    default:
+      return `${prescription.reps} reps`;
+  }
+}
+
+// Seconds the set lasts when it is timed, so session views can count it down
+export function timedSetSeconds(instance: Partial<SetPrescription> & { reps: number }): number | null {
+  const { prescription_type, duration_seconds } = getPrescription(instance);
+  if ((prescription_type === 'duration' || prescription_type === 'amrap') && duration_seconds) {
+    return duration_seconds;
+  }
+  return null;
+}
+
+// Target reps to prefill when logging a set, if the prescription has one
+export function targetReps(instance: Partial<SetPrescription> & { reps: number }): number | null {
+  const { prescription_type, reps } = getPrescription(instance);
+  return prescription_type === 'reps' || prescription_type === 'reps_range' ? reps : null;
+}
+
+// Validate the prescription of an untrusted instance, or return an error message
+export function parsePrescription(instance: Record<string, unknown>): SetPrescription | string {
+  const type = instance.prescription_type ?? 'reps';
+
+  if (typeof type !== 'string' || !(type in PRESCRIPTION_TYPES)) {
+    return 'Tipo de prescripción inválido';
+  }
+
+  const prescription = defaultPrescription(type as PrescriptionType, 1);
+  const reps = instance.reps ?? 1;
+
+  switch (type) {
+    case 'reps':
+    case 'reps_range':
+      if (!isInteger(reps, 1)) return 'Las repeticiones deben ser un entero mayor que 0';
+      prescription.reps = reps;
+      if (type === 'reps_range') {
+        if (!isInteger(instance.reps_max, reps)) return 'El máximo del rango debe ser mayor o igual al mínimo';
+        prescription.reps_max = instance.reps_max;
+      }
+      return prescription;
+    case 'duration':
+      if (!isInteger(instance.duration_seconds, 1)) return 'La duración debe ser un entero de segundos mayor que 0';
+      return { ...prescription, duration_seconds: instance.duration_seconds };
+    case 'distance':
+      if (typeof instance.distance_meters !== 'number' || !(instance.distance_meters > 0)) {
+        return 'La distancia debe ser mayor que 0';
+      }
+      return { ...prescription, distance_meters: instance.distance_meters };
+    case 'amrap':
+      if (instance.duration_seconds != null && !isInteger(instance.duration_seconds, 1)) {
+        return 'El tiempo límite debe ser un entero de segundos mayor que 0';
+      }
+      return { ...prescription, duration_seconds: (instance.duration_seconds as number | null) ?? null };
+    default:
+      return 'Tipo de prescripción inválido';
+  }
+}
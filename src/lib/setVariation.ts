@@ -0,0 +1,75 @@
+import { LoadPrescription, parseLoad } from '@/lib/loadPrescription';
+import { isInteger } from '@/lib/utils';
+
+// Tempo notation (eccentric-pause-concentric-pause, X for explosive) and per-round
+// changes to an exercise instance, for pyramids and drop sets. Overrides are
+// indexed by round (first entry is round 1); a null field keeps the instance value
+
+export const TEMPO_PATTERN = /^[0-9X]-[0-9X]-[0-9X]-[0-9X]$/;
+
+export interface RoundOverride {
+  reps: number | null;
+  load: LoadPrescription | null;
+}
+
+export const EMPTY_OVERRIDE: RoundOverride = { reps: null, load: null };
+
+interface VariableInstance {
+  reps: number;
+  load?: LoadPrescription;
+  round_overrides?: RoundOverride[] | null;
+}
+
+// Uppercase and trim what the trainer typed, blank means no tempo
+export function normalizeTempo(value: string): string | null {
+  const tempo = value.trim().toUpperCase();
+  return tempo ? tempo : null;
+}
+
+export function hasRoundOverrides(instance: VariableInstance): boolean {
+  return (instance.round_overrides || []).some(override => override.reps !== null || override.load !== null);
+}
+
+// The instance as prescribed for a given round (1-based)
+export function forRound<T extends VariableInstance>(instance: T, round: number): T {
+  const override = instance.round_overrides?.[round - 1];
+  if (!override) return instance;
+
+  return {
+    ...instance,
+    reps: override.reps ?? instance.reps,
+    load: override.load ?? instance.load
+  };
+}
+
+// Resize the overrides to the block's rounds, dropping them when none is set
+export function compactOverrides(overrides: RoundOverride[], rounds: number): RoundOverride[] | null {
+  const sized = Array.from({ length: rounds }, (_, index) => overrides[index] || EMPTY_OVERRIDE);
+  return sized.some(override => override.reps !== null || override.load !== null) ? sized : null;
+}
+
+// Clean overrides (null when there are none), or an error message
+export function parseRoundOverrides(value: unknown): RoundOverride[] | null | string {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value)) return 'La variación por ronda debe ser una lista';
+
+  const overrides: RoundOverride[] = [];
+
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) return 'Variación de ronda inválida';
+
+    const { reps, load } = item as Record<string, unknown>;
+    if (reps !== null && reps !== undefined && !isInteger(reps, 1)) {
+      return 'Las repeticiones de cada ronda deben ser un entero mayor que 0';
+    }
+
+    const parsedLoad = load === null || load === undefined ? null : parseLoad(load);
+    if (load !== null && load !== undefined && !parsedLoad) {
+      return 'La carga de cada ronda no es válida';
+    }
+
+    overrides.push({ reps: (reps as number | null | undefined) ?? null, load: parsedLoad });
+  }
+
+  return overrides.length > 0 ? overrides : null;
+}
@@ -4,3 +4,21 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Return a copy of the list with the item at `from` moved to `to`
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const result = [...list]
+  const [item] = result.splice(from, 1)
+  result.splice(to, 0, item)
+  return result
+}
+
+// Whether the value is an integer no smaller than `min`
+export function isInteger(value: unknown, min: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min
+}
+
+// Supabase types an embedded relation as an array or a single row
+export function embeddedRow<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value
+}
@@ -0,0 +1,20 @@
+import { WorkoutPayload } from '@/lib/workoutRows';
+import type { CreateWorkoutResponse, WorkoutApiError } from '@/lib/workoutValidation';
+
+// Create a workout through /api/workouts, which writes the workout, its blocks
+// and instances in a single transaction. Throws with the validation details on failure
+export async function postWorkout(payload: WorkoutPayload): Promise<CreateWorkoutResponse> {
+  const response = await fetch('/api/workouts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json() as WorkoutApiError;
+    const details = error.details?.map(issue => `• ${issue.message}`).join('\n');
+    throw new Error(details ? `${error.message}:\n${details}` : `Error al crear la rutina: ${error.message}`);
+  }
+
+  return await response.json() as CreateWorkoutResponse;
+}
@@ -0,0 +1,126 @@
+import { BlockRow, DraftBlock, DraftExerciseInstance, DraftWorkout, InstanceRow, toBlockRow, toInstanceRow } from '@/lib/workoutRows';
+
+export interface WorkoutDiff {
+  name?: string; // Only set when the workout name changed
+  blocksToInsert: { position: number; block: DraftBlock }[];
+  blocksToUpdate: { id: number; changes: BlockRow }[];
+  blockIdsToDelete: number[];
+  instancesToInsert: { blockId: number; position: number; instance: DraftExerciseInstance }[];
+  instancesToUpdate: { id: number; changes: InstanceRow }[];
+  instanceIdsToDelete: number[];
+}
+
+const rowsEqual = (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b);
+
+// Compare the saved workout with the edited draft so only changed rows are written,
+// keeping the ids of untouched blocks and instances (and the logs that point to them) stable.
+// Positions come from array order, so a reorder shows up as position updates
+export function diffWorkout(original: DraftWorkout, edited: DraftWorkout): WorkoutDiff {
+  const diff: WorkoutDiff = {
+    blocksToInsert: [],
+    blocksToUpdate: [],
+    blockIdsToDelete: [],
+    instancesToInsert: [],
+    instancesToUpdate: [],
+    instanceIdsToDelete: []
+  };
+
+  if (original.name !== edited.name) {
+    diff.name = edited.name;
+  }
+
+  const editedBlockIds = new Set(edited.blocks.map(block => block.id).filter(Boolean));
+
+  // Blocks that disappeared are deleted together with all their instances
+  original.blocks.forEach(block => {
+    if (block.id && !editedBlockIds.has(block.id)) {
+      diff.blockIdsToDelete.push(block.id);
+      block.exercise_instances.forEach(instance => {
+        if (instance.id) diff.instanceIdsToDelete.push(instance.id);
+      });
+    }
+  });
+
+  edited.blocks.forEach((block, blockIndex) => {
+    const originalIndex = block.id ? original.blocks.findIndex(b => b.id === block.id) : -1;
+    const originalBlock = original.blocks[originalIndex];
+
+    if (!block.id || !originalBlock) {
+      diff.blocksToInsert.push({ position: blockIndex, block });
+      return;
+    }
+
+    const changes = toBlockRow(block, blockIndex);
+    if (!rowsEqual(changes, toBlockRow(originalBlock, originalIndex))) {
+      diff.blocksToUpdate.push({ id: block.id, changes });
+    }
+
+    const editedInstanceIds = new Set(block.exercise_instances.map(instance => instance.id).filter(Boolean));
+
+    originalBlock.exercise_instances.forEach(instance => {
+      if (instance.id && !editedInstanceIds.has(instance.id)) {
+        diff.instanceIdsToDelete.push(instance.id);
+      }
+    });
+
+    block.exercise_instances.forEach((instance, instanceIndex) => {
+      const originalInstanceIndex = instance.id
+        ? originalBlock.exercise_instances.findIndex(i => i.id === instance.id)
+        : -1;
+      const originalInstance = originalBlock.exercise_instances[originalInstanceIndex];
+
+      if (!instance.id || !originalInstance) {
+        diff.instancesToInsert.push({ blockId: block.id!, position: instanceIndex, instance });
+        return;
+      }
+
+      const instanceChanges = toInstanceRow(instance, instanceIndex);
+      if (!rowsEqual(instanceChanges, toInstanceRow(originalInstance, originalInstanceIndex))) {
+        diff.instancesToUpdate.push({ id: instance.id, changes: instanceChanges });
+      }
+    });
+  });
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: WorkoutDiff): boolean {
+  return diff.name === undefined &&
+    diff.blocksToInsert.length === 0 &&
+    diff.blocksToUpdate.length === 0 &&
+    diff.blockIdsToDelete.length === 0 &&
+    diff.instancesToInsert.length === 0 &&
+    diff.instancesToUpdate.length === 0 &&
+    diff.instanceIdsToDelete.length === 0;
+}
+
+export interface WorkoutUpdatePayload {
+  workout_id: number;
+  name?: string;
+  block_ids_to_delete: number[];
+  instance_ids_to_delete: number[];
+  blocks_to_update: (BlockRow & { id: number })[];
+  instances_to_update: (InstanceRow & { id: number })[];
+  blocks_to_insert: (BlockRow & { exercise_instances: InstanceRow[] })[];
+  instances_to_insert: (InstanceRow & { block_id: number })[];
+}
+
+// Body of the update_workout() RPC, which applies the whole diff in one transaction
+export function toWorkoutUpdatePayload(workoutId: number, diff: WorkoutDiff): WorkoutUpdatePayload {
+  return {
+    workout_id: workoutId,
+    ...(diff.name !== undefined ? { name: diff.name } : {}),
+    block_ids_to_delete: diff.blockIdsToDelete,
+    instance_ids_to_delete: diff.instanceIdsToDelete,
+    blocks_to_update: diff.blocksToUpdate.map(({ id, changes }) => ({ id, ...changes })),
+    instances_to_update: diff.instancesToUpdate.map(({ id, changes }) => ({ id, ...changes })),
+    blocks_to_insert: diff.blocksToInsert.map(({ position, block }) => ({
+      ...toBlockRow(block, position),
+      exercise_instances: block.exercise_instances.map((instance, instanceIndex) => toInstanceRow(instance, instanceIndex))
+    })),
+    instances_to_insert: diff.instancesToInsert.map(({ blockId, position, instance }) => ({
+      ...toInstanceRow(instance, position),
+      block_id: blockId
+    }))
+  };
+}
@@ -0,0 +1,140 @@
+import { Exercise } from '@/components/ExerciseCard';
+import { orderWorkout, Workout } from '@/hooks/useWorkouts';
+import { LoadPrescription, NO_LOAD, parseLoad } from '@/lib/loadPrescription';
+import { getPrescription, SetPrescription } from '@/lib/setPrescription';
+import { BlockSettings, getBlockSettings } from '@/lib/blockTypes';
+import { RoundOverride } from '@/lib/setVariation';
+
+// Draft versions of the workout structure, ids are only present for rows already saved
+export interface DraftExerciseInstance extends SetPrescription {
+  id?: number;
+  rest: number;
+  exercise_id: number;
+  exercise?: Exercise;
+  block_id?: number;
+  load: LoadPrescription;
+  tempo: string | null;
+  round_overrides: RoundOverride[] | null;
+}
+
+export interface DraftBlock extends BlockSettings {
+  id?: number;
+  name: string;
+  rounds: number;
+  round_rest_seconds: number | null;
+  exercise_instances: DraftExerciseInstance[];
+  workout_id?: number;
+}
+
+export interface DraftWorkout {
+  id?: number;
+  name: string;
+  source_template_id?: number | null;
+  blocks: DraftBlock[];
+}
+
+// Editable columns of a block row, shared by creation and diff-based updates.
+// The position is the block's index in the draft
+export function toBlockRow(block: DraftBlock, position: number) {
+  return {
+    name: block.name,
+    rounds: block.rounds,
+    round_rest_seconds: block.round_rest_seconds,
+    ...getBlockSettings(block),
+    position
+  };
+}
+
+// Editable columns of an exercise instance row, positioned within its block
+export function toInstanceRow(instance: DraftExerciseInstance, position: number) {
+  return {
+    ...getPrescription(instance),
+    rest: instance.rest,
+    exercise_id: instance.exercise_id,
+    load: instance.load,
+    tempo: instance.tempo,
+    round_overrides: instance.round_overrides,
+    position
+  };
+}
+
+export type BlockRow = ReturnType<typeof toBlockRow>;
+export type InstanceRow = ReturnType<typeof toInstanceRow>;
+
+// Convert a fetched workout into the draft shape the builder edits, keeping row ids
+export function toDraftWorkout(workout: Workout): DraftWorkout {
+  const ordered = orderWorkout(workout);
+
+  return {
+    id: ordered.id,
+    name: ordered.name,
+    source_template_id: ordered.source_template_id ?? null,
+    blocks: (ordered.blocks || []).map(block => ({
+      id: block.id,
+      name: block.name,
+      rounds: block.rounds,
+      round_rest_seconds: block.round_rest_seconds ?? null,
+      ...getBlockSettings(block),
+      workout_id: block.workout_id,
+      exercise_instances: (block.exercise_instances || []).map(instance => ({
+        id: instance.id,
+        ...getPrescription(instance),
+        rest: instance.rest,
+        exercise_id: instance.exercise_id,
+        exercise: instance.exercise,
+        block_id: instance.block_id,
+        load: parseLoad(instance.load) || NO_LOAD,
+        tempo: instance.tempo ?? null,
+        round_overrides: instance.round_overrides ?? null
+      }))
+    }))
+  };
+}
+
+export interface WorkoutPayload {
+  name: string;
+  source_template_id: number | null;
+  blocks: (BlockRow & { exercise_instances: InstanceRow[] })[];
+}
+
+// Nested body sent to the atomic creation endpoint
+export function toWorkoutPayload(workout: DraftWorkout): WorkoutPayload {
+  return {
+    name: workout.name,
+    source_template_id: workout.source_template_id ?? null,
+    blocks: workout.blocks.map((block, blockIndex) => ({
+      ...toBlockRow(block, blockIndex),
+      exercise_instances: block.exercise_instances.map((instance, instanceIndex) => toInstanceRow(instance, instanceIndex))
+    }))
+  };
+}
+
+// Copies of draft rows without ids, so saving inserts them as new rows
+export function copyDraftInstance(instance: DraftExerciseInstance): DraftExerciseInstance {
+  return { ...instance, id: undefined, block_id: undefined };
+}
+
+// Deep copy of a whole workout for duplicates and routines started from a template.
+// Block names are kept, the copy points at the template it comes from
+export function copyDraftWorkout(workout: DraftWorkout, name: string, sourceTemplateId: number | null): DraftWorkout {
+  return {
+    name,
+    source_template_id: sourceTemplateId,
+    blocks: workout.blocks.map(block => ({
+      ...block,
+      id: undefined,
+      workout_id: undefined,
+      exercise_instances: block.exercise_instances.map(copyDraftInstance)
+    }))
+  };
+}
+
+export function copyDraftBlock(block: DraftBlock): DraftBlock {
+  return {
+    ...block,
+    id: undefined,
+    workout_id: undefined,
+    name: `${block.name} (copia)`,
+    exercise_instances: block.exercise_instances.map(copyDraftInstance)
+  };
+}
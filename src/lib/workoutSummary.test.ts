@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { formatEstimatedDuration, summarizeBlock, summarizeWorkout } from '@/lib/workoutSummary';
+
+const straightBlock = {
+  rounds: 3,
+  exercise_instances: [{ reps: 10, rest: 60 }]
+};
+
+const supersetBlock = {
+  block_type: 'superset' as const,
+  rounds: 2,
+  exercise_instances: [
+    { reps: 10, rest: 30 },
+    { reps: 8, rest: 90 }
+  ]
+};
+
+describe('summarizeBlock', () => {
+  it('counts every set of every round with the rest after it', () => {
+    // 3 rounds × (10 reps × 3 s + 60 s rest)
+    expect(summarizeBlock(straightBlock)).toEqual({
+      estimatedSeconds: 270,
+      totalSets: 3,
+      totalReps: 30,
+      trailingRest: 60
+    });
+  });
+
+  it('applies round overrides to the reps of each round', () => {
+    const block = {
+      rounds: 2,
+      exercise_instances: [{
+        reps: 10,
+        rest: 60,
+        round_overrides: [{ reps: 12, load: null }, { reps: 8, load: null }]
+      }]
+    };
+
+    // (12 × 3 + 60) + (8 × 3 + 60)
+    expect(summarizeBlock(block)).toMatchObject({ estimatedSeconds: 180, totalSets: 2, totalReps: 20 });
+  });
+
+  it('only rests after the last exercise of a superset round', () => {
+    // 2 rounds × (10 × 3 + 0 + 8 × 3 + 90)
+    expect(summarizeBlock(supersetBlock)).toEqual({
+      estimatedSeconds: 288,
+      totalSets: 4,
+      totalReps: 36,
+      trailingRest: 90
+    });
+  });
+
+  it('uses the round rest after the last exercise when the block sets one', () => {
+    const block = {
+      rounds: 2,
+      round_rest_seconds: 120,
+      exercise_instances: [
+        { reps: 5, rest: 30 },
+        { reps: 5, rest: 30 }
+      ]
+    };
+
+    // 2 rounds × (15 + 30 + 15 + 120)
+    expect(summarizeBlock(block)).toMatchObject({ estimatedSeconds: 360, trailingRest: 120 });
+  });
+
+  it('times tabata sets with the block intervals', () => {
+    const block = {
+      block_type: 'tabata' as const,
+      work_seconds: 20,
+      rest_seconds: 10,
+      rounds: 8,
+      exercise_instances: [{ reps: 10, rest: 60 }]
+    };
+
+    expect(summarizeBlock(block)).toMatchObject({ estimatedSeconds: 240, totalSets: 8, trailingRest: 10 });
+  });
+
+  it('lasts exactly the time cap of an AMRAP', () => {
+    const block = {
+      block_type: 'amrap' as const,
+      time_cap_seconds: 600,
+      rounds: 5,
+      exercise_instances: [{ reps: 10, rest: 60 }]
+    };
+
+    expect(summarizeBlock(block)).toMatchObject({ estimatedSeconds: 600, trailingRest: 0 });
+  });
+});
+
+describe('summarizeWorkout', () => {
+  it('drops the rest after the last set of the workout', () => {
+    expect(summarizeWorkout({ blocks: [straightBlock] })).toEqual({
+      estimatedSeconds: 210,
+      totalSets: 3,
+      totalReps: 30
+    });
+  });
+
+  it('only drops the trailing rest of the last block', () => {
+    // 270 + 288 - 90
+    expect(summarizeWorkout({ blocks: [straightBlock, supersetBlock] })).toEqual({
+      estimatedSeconds: 468,
+      totalSets: 7,
+      totalReps: 66
+    });
+  });
+
+  it('ignores empty blocks when finding the last set', () => {
+    const emptyBlock = { rounds: 3, exercise_instances: [] };
+
+    expect(summarizeWorkout({ blocks: [straightBlock, emptyBlock] }).estimatedSeconds).toBe(210);
+  });
+
+  it('is zero for a workout without blocks', () => {
+    expect(summarizeWorkout({})).toEqual({ estimatedSeconds: 0, totalSets: 0, totalReps: 0 });
+  });
+});
+
+describe('formatEstimatedDuration', () => {
+  it('shows minutes under one hour', () => {
+    expect(formatEstimatedDuration(0)).toBe('0 min');
+    expect(formatEstimatedDuration(20)).toBe('~1 min');
+    expect(formatEstimatedDuration(45 * 60)).toBe('~45 min');
+  });
+
+  it('shows hours and minutes from one hour on', () => {
+    expect(formatEstimatedDuration(3599)).toBe('~1 h');
+    expect(formatEstimatedDuration(60 * 60)).toBe('~1 h');
+    expect(formatEstimatedDuration(70 * 60)).toBe('~1 h 10 min');
+    expect(formatEstimatedDuration(2 * 60 * 60)).toBe('~2 h');
+  });
+});
@@ -0,0 +1,103 @@
+import { BlockSettings, blockWorkSeconds, getBlockSettings, restAfterInstance } from '@/lib/blockTypes';
+import { getPrescription, SetPrescription, targetReps, timedSetSeconds } from '@/lib/setPrescription';
+import { forRound, RoundOverride } from '@/lib/setVariation';
+
+// Estimated time and volume of a workout. Works on both fetched workouts and
+// builder drafts, so it only reads the fields they share
+
+// Rough pace assumptions for sets that are not timed
+export const SECONDS_PER_REP = 3;
+export const SECONDS_PER_METER = 0.3;
+export const AMRAP_SET_SECONDS = 60;
+
+interface SummaryInstance extends Partial<SetPrescription> {
+  reps: number;
+  rest: number;
+  round_overrides?: RoundOverride[] | null;
+}
+
+interface SummaryBlock extends Partial<BlockSettings> {
+  rounds: number;
+  round_rest_seconds?: number | null;
+  exercise_instances?: SummaryInstance[];
+}
+
+export interface WorkoutSummary {
+  estimatedSeconds: number;
+  totalSets: number;
+  totalReps: number;
+}
+
+// Seconds one set takes when neither the block nor the prescription times it
+export function estimateSetSeconds(instance: SummaryInstance): number {
+  const timed = timedSetSeconds(instance);
+  if (timed !== null) return timed;
+
+  const prescription = getPrescription(instance);
+  switch (prescription.prescription_type) {
+    case 'distance':
+      return Math.round((prescription.distance_meters ?? 0) * SECONDS_PER_METER);
+    case 'amrap':
+      return AMRAP_SET_SECONDS;
+    default:
+      return prescription.reps * SECONDS_PER_REP;
+  }
+}
+
+export function summarizeBlock(block: SummaryBlock): WorkoutSummary & { trailingRest: number } {
+  const instances = block.exercise_instances || [];
+  const workSeconds = blockWorkSeconds(block);
+  const summary = { estimatedSeconds: 0, totalSets: 0, totalReps: 0, trailingRest: 0 };
+
+  for (let round = 1; round <= block.rounds; round++) {
+    instances.forEach((baseInstance, instanceIndex) => {
+      const instance = forRound(baseInstance, round);
+      const rest = restAfterInstance(block, instanceIndex);
+
+      summary.estimatedSeconds += (workSeconds ?? estimateSetSeconds(instance)) + rest;
+      summary.totalSets += 1;
+      summary.totalReps += targetReps(instance) ?? 0;
+      summary.trailingRest = rest;
+    });
+  }
+
+  // An AMRAP lasts exactly its time cap, whatever the rounds estimate says
+  const settings = getBlockSettings(block);
+  if (settings.block_type === 'amrap' && settings.time_cap_seconds) {
+    summary.estimatedSeconds = settings.time_cap_seconds;
+    summary.trailingRest = 0;
+  }
+
+  return summary;
+}
+
+export function summarizeWorkout(workout: { blocks?: SummaryBlock[] }): WorkoutSummary {
+  const blocks = workout.blocks || [];
+  const summary: WorkoutSummary = { estimatedSeconds: 0, totalSets: 0, totalReps: 0 };
+  let trailingRest = 0;
+
+  blocks.forEach(block => {
+    const blockSummary = summarizeBlock(block);
+    summary.estimatedSeconds += blockSummary.estimatedSeconds;
+    summary.totalSets += blockSummary.totalSets;
+    summary.totalReps += blockSummary.totalReps;
+    if (blockSummary.totalSets > 0) trailingRest = blockSummary.trailingRest;
+  });
+
+  // Nobody rests after the very last set
+  summary.estimatedSeconds -= trailingRest;
+
+  return summary;
+}
+
+// Round to whole minutes for display, e.g. "~45 min" or "~1 h 10 min"
+export function formatEstimatedDuration(seconds: number): string {
+  if (seconds <= 0) return '0 min';
+
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `~${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `~${hours} h ${rest} min` : `~${hours} h`;
+}
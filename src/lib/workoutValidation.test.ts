@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { validateWorkoutPayload, ValidationResult } from '@/lib/workoutValidation';
+
+const instance = (fields: Record<string, unknown> = {}) => ({
+  exercise_id: 7,
+  reps: 10,
+  rest: 60,
+  load: { mode: 'none' },
+  ...fields
+});
+
+const block = (fields: Record<string, unknown> = {}) => ({
+  name: 'Bloque A',
+  rounds: 3,
+  exercise_instances: [instance()],
+  ...fields
+});
+
+const body = (fields: Record<string, unknown> = {}) => ({
+  name: 'Rutina',
+  blocks: [block()],
+  ...fields
+});
+
+const issuePaths = (result: ValidationResult) => (result.success ? [] : result.issues.map(issue => issue.path));
+
+describe('validateWorkoutPayload', () => {
+  it('returns a clean payload positioned by array order', () => {
+    const result = validateWorkoutPayload(body({
+      name: '  Rutina  ',
+      extra: true,
+      blocks: [block({ position: 9, exercise_instances: [instance({ position: 4 }), instance({ exercise_id: 8 })] })]
+    }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.payload.name).toBe('Rutina');
+    expect(result.payload).not.toHaveProperty('extra');
+    expect(result.payload.blocks[0]).toMatchObject({ position: 0, block_type: 'straight', round_rest_seconds: null });
+    expect(result.payload.blocks[0].exercise_instances.map(i => [i.exercise_id, i.position])).toEqual([[7, 0], [8, 1]]);
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(issuePaths(validateWorkoutPayload(null))).toEqual(['']);
+    expect(issuePaths(validateWorkoutPayload([body()]))).toEqual(['']);
+  });
+
+  it('requires a non-empty blocks array', () => {
+    expect(issuePaths(validateWorkoutPayload({ name: 'Rutina' }))).toEqual(['blocks']);
+    expect(issuePaths(validateWorkoutPayload(body({ blocks: [] })))).toEqual(['blocks']);
+    expect(issuePaths(validateWorkoutPayload(body({ name: ' ', blocks: {} })))).toEqual(['name', 'blocks']);
+  });
+
+  it('requires each block to have exercises', () => {
+    expect(issuePaths(validateWorkoutPayload(body({ blocks: [block({ exercise_instances: [] })] }))))
+      .toEqual(['blocks[0].exercise_instances']);
+  });
+
+  it('rejects rounds and rests that are not integers', () => {
+    const result = validateWorkoutPayload(body({
+      blocks: [
+        block({ rounds: 2.5 }),
+        block({ rounds: '3', round_rest_seconds: -30 }),
+        block({ rounds: 0, exercise_instances: [instance({ rest: 1.5 })] })
+      ]
+    }));
+
+    expect(issuePaths(result)).toEqual([
+      'blocks[0].rounds',
+      'blocks[1].rounds',
+      'blocks[1].round_rest_seconds',
+      'blocks[2].rounds',
+      'blocks[2].exercise_instances[0].rest'
+    ]);
+  });
+
+  it('rejects an unknown block type or prescription type', () => {
+    const result = validateWorkoutPayload(body({
+      blocks: [block({ block_type: 'pyramid', exercise_instances: [instance({ prescription_type: 'calories' })] })]
+    }));
+
+    expect(issuePaths(result)).toEqual(['blocks[0].block_type', 'blocks[0].exercise_instances[0].prescription_type']);
+  });
+
+  it('checks the settings each block type needs', () => {
+    const result = validateWorkoutPayload(body({
+      blocks: [block({ block_type: 'emom' }), block({ block_type: 'tabata', work_seconds: 20, rest_seconds: 10 })]
+    }));
+
+    expect(issuePaths(result)).toEqual(['blocks[0].block_type']);
+  });
+});
@@ -0,0 +1,159 @@
+import { LoadPrescription, parseLoad } from '@/lib/loadPrescription';
+import { parsePrescription, SetPrescription } from '@/lib/setPrescription';
+import { WorkoutPayload } from '@/lib/workoutRows';
+import { BlockSettings, parseBlockSettings } from '@/lib/blockTypes';
+import { parseRoundOverrides, RoundOverride, TEMPO_PATTERN } from '@/lib/setVariation';
+import { isInteger } from '@/lib/utils';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Response shapes of the /api/workouts route
+export type WorkoutApiErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'database_error';
+
+export interface WorkoutApiError {
+  error: {
+    code: WorkoutApiErrorCode;
+    message: string;
+    details?: ValidationIssue[];
+  };
+}
+
+export interface CreateWorkoutResponse {
+  workout_id: number;
+  blocks: { id: number; exercise_instance_ids: number[] }[];
+}
+
+export type ValidationResult =
+  | { success: true; payload: WorkoutPayload }
+  | { success: false; issues: ValidationIssue[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Check an untrusted request body against the nested workout shape and
+// return a clean payload containing only the columns we write
+export function validateWorkoutPayload(body: unknown): ValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  if (!isRecord(body)) {
+    return { success: false, issues: [{ path: '', message: 'El cuerpo de la petición debe ser un objeto' }] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    issues.push({ path: 'name', message: 'El nombre de la rutina es obligatorio' });
+  }
+
+  if (!Array.isArray(body.blocks) || body.blocks.length === 0) {
+    issues.push({ path: 'blocks', message: 'La rutina debe tener al menos un bloque' });
+    return { success: false, issues };
+  }
+
+  const sourceTemplateId = body.source_template_id ?? null;
+  if (sourceTemplateId !== null && !isInteger(sourceTemplateId, 1)) {
+    issues.push({ path: 'source_template_id', message: 'La plantilla de origen no es válida' });
+  }
+
+  const blocks: WorkoutPayload['blocks'] = [];
+
+  body.blocks.forEach((block: unknown, blockIndex: number) => {
+    const blockPath = `blocks[${blockIndex}]`;
+
+    if (!isRecord(block)) {
+      issues.push({ path: blockPath, message: 'Bloque inválido' });
+      return;
+    }
+
+    const blockName = typeof block.name === 'string' ? block.name.trim() : '';
+    if (!blockName) {
+      issues.push({ path: `${blockPath}.name`, message: 'El nombre del bloque es obligatorio' });
+    }
+
+    if (!isInteger(block.rounds, 1)) {
+      issues.push({ path: `${blockPath}.rounds`, message: 'Las rondas deben ser un entero mayor que 0' });
+    }
+
+    const roundRest = block.round_rest_seconds ?? null;
+    if (roundRest !== null && !isInteger(roundRest, 0)) {
+      issues.push({ path: `${blockPath}.round_rest_seconds`, message: 'El descanso entre rondas debe ser un entero no negativo' });
+    }
+
+    const settings = parseBlockSettings(block);
+    if (typeof settings === 'string') {
+      issues.push({ path: `${blockPath}.block_type`, message: settings });
+    }
+
+    if (!Array.isArray(block.exercise_instances) || block.exercise_instances.length === 0) {
+      issues.push({ path: `${blockPath}.exercise_instances`, message: 'El bloque debe tener al menos un ejercicio' });
+      return;
+    }
+
+    const instances: WorkoutPayload['blocks'][number]['exercise_instances'] = [];
+
+    block.exercise_instances.forEach((instance: unknown, instanceIndex: number) => {
+      const instancePath = `${blockPath}.exercise_instances[${instanceIndex}]`;
+
+      if (!isRecord(instance)) {
+        issues.push({ path: instancePath, message: 'Ejercicio inválido' });
+        return;
+      }
+
+      if (!isInteger(instance.exercise_id, 1)) {
+        issues.push({ path: `${instancePath}.exercise_id`, message: 'Selecciona un ejercicio' });
+      }
+      const prescription = parsePrescription(instance);
+      if (typeof prescription === 'string') {
+        issues.push({ path: `${instancePath}.prescription_type`, message: prescription });
+      }
+      if (!isInteger(instance.rest, 0)) {
+        issues.push({ path: `${instancePath}.rest`, message: 'El descanso debe ser un entero no negativo' });
+      }
+      const load = parseLoad(instance.load);
+      if (!load) {
+        issues.push({ path: `${instancePath}.load`, message: 'La carga prescrita no es válida' });
+      }
+      const tempo = instance.tempo ?? null;
+      if (tempo !== null && (typeof tempo !== 'string' || !TEMPO_PATTERN.test(tempo))) {
+        issues.push({ path: `${instancePath}.tempo`, message: 'El tempo debe tener el formato 3-1-1-0' });
+      }
+      const roundOverrides = parseRoundOverrides(instance.round_overrides);
+      if (typeof roundOverrides === 'string') {
+        issues.push({ path: `${instancePath}.round_overrides`, message: roundOverrides });
+      }
+
+      // Positions always follow array order, whatever the client sent
+      instances.push({
+        exercise_id: instance.exercise_id as number,
+        ...(prescription as SetPrescription),
+        rest: instance.rest as number,
+        load: load as LoadPrescription,
+        tempo: tempo as string | null,
+        round_overrides: roundOverrides as RoundOverride[] | null,
+        position: instanceIndex
+      });
+    });
+
+    blocks.push({
+      name: blockName,
+      rounds: block.rounds as number,
+      round_rest_seconds: roundRest as number | null,
+      ...(settings as BlockSettings),
+      position: blockIndex,
+      exercise_instances: instances
+    });
+  });
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return { success: true, payload: { name, source_template_id: sourceTemplateId as number | null, blocks } };
+}
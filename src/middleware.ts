@@ -1,6 +1,7 @@
 import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getRoles, hasPermission, requiredPermission } from '@/lib/authorization';
 
 export async function middleware(req: NextRequest) {
   console.log('🔒 Middleware - Starting request:', {
@@ -40,6 +41,11 @@ export async function middleware(req: NextRequest) {
       return res;
     }
 
+    // Calendar feeds are fetched by calendar apps, the token in the URL is the credential
+    if (req.nextUrl.pathname.startsWith('/api/calendar/')) {
+      return res;
+    }
+
     // Always allow access to public assets
     if (
       req.nextUrl.pathname.startsWith('/_next') ||
@@ -65,20 +71,15 @@ export async function middleware(req: NextRequest) {
       return NextResponse.redirect(redirectUrl);
     }
     
-    // Block access to workout creation routes for non-trainer users
-    if (session && 
-        (req.nextUrl.pathname.startsWith('/workouts/create') || 
-         req.nextUrl.pathname.includes('/edit'))) {
+    // Block access to workout creation and client management routes for users without the permission
+    const permission = requiredPermission(req.nextUrl.pathname);
+    if (session && permission) {
       
-      // Check if user has trainer role
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('roles')
-        .eq('uuid', session.user.id)
-        .single();
+      // Roles come from the access token claim
+      const roles = await getRoles(supabase, session);
       
-      if (profileError || !profile || !profile.roles || !profile.roles.includes('trainer')) {
-        console.log('🚫 Middleware - Non-trainer user trying to access restricted path, redirecting to home');
+      if (!hasPermission(roles, permission)) {
+        console.log('🚫 Middleware - User without permission trying to access restricted path, redirecting to home:', permission);
         const redirectUrl = req.nextUrl.clone();
         redirectUrl.pathname = '/';
         return NextResponse.redirect(redirectUrl);
@@ -0,0 +1,80 @@
+-- Workout sessions: one row each time an athlete performs a workout
+create table if not exists public.workout_sessions (
+  id bigint generated by default as identity primary key,
+  workout_id bigint not null references public.workouts (id) on delete cascade,
+  user_id uuid not null references public.profiles (uuid) on delete cascade,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workout_sessions_workout_id_idx on public.workout_sessions (workout_id);
+create index if not exists workout_sessions_user_id_idx on public.workout_sessions (user_id, started_at desc);
+
+-- Set logs: what was actually done for an exercise instance in a given round
+create table if not exists public.set_logs (
+  id bigint generated by default as identity primary key,
+  session_id bigint not null references public.workout_sessions (id) on delete cascade,
+  exercise_instance_id bigint references public.exercise_instances (id) on delete set null,
+  exercise_id bigint references public.exercises (id) on delete set null,
+  round integer not null check (round > 0),
+  reps integer check (reps >= 0),
+  weight numeric(6, 2) check (weight >= 0),
+  rpe numeric(3, 1) check (rpe between 1 and 10),
+  notes text,
+  completed_at timestamptz not null default now(),
+  unique (session_id, exercise_instance_id, round)
+);
+
+create index if not exists set_logs_session_id_idx on public.set_logs (session_id);
+create index if not exists set_logs_exercise_id_idx on public.set_logs (exercise_id);
+
+alter table public.workout_sessions enable row level security;
+alter table public.set_logs enable row level security;
+
+-- Athletes manage their own sessions
+create policy "Users manage their own sessions"
+  on public.workout_sessions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Trainers can read the sessions of their accepted clients
+create policy "Trainers read client sessions"
+  on public.workout_sessions for select
+  using (
+    exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = workout_sessions.user_id
+        and r.status = 'accepted'
+    )
+  );
+
+create policy "Users manage logs of their own sessions"
+  on public.set_logs for all
+  using (
+    exists (
+      select 1 from public.workout_sessions s
+      where s.id = set_logs.session_id and s.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.workout_sessions s
+      where s.id = set_logs.session_id and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Trainers read client set logs"
+  on public.set_logs for select
+  using (
+    exists (
+      select 1
+      from public.workout_sessions s
+      join public.trainer_user_relationships r on r.user_id = s.user_id
+      where s.id = set_logs.session_id
+        and r.trainer_id = auth.uid()
+        and r.status = 'accepted'
+    )
+  );
@@ -0,0 +1,49 @@
+-- Let athletes request trainers and trainers answer the requests addressed to them
+alter table public.trainer_user_relationships enable row level security;
+
+create policy "Trainers read their client requests"
+  on public.trainer_user_relationships for select
+  using (auth.uid() = trainer_id);
+
+create policy "Trainers accept or reject their client requests"
+  on public.trainer_user_relationships for update
+  using (auth.uid() = trainer_id)
+  with check (auth.uid() = trainer_id and status in ('pending', 'accepted', 'rejected'));
+
+create policy "Trainers remove their clients"
+  on public.trainer_user_relationships for delete
+  using (auth.uid() = trainer_id);
+
+create policy "Users read their trainer requests"
+  on public.trainer_user_relationships for select
+  using (auth.uid() = user_id);
+
+create policy "Users request trainers"
+  on public.trainer_user_relationships for insert
+  with check (auth.uid() = user_id and status = 'pending');
+
+-- A rejected request can be sent again
+create policy "Users resend rejected requests"
+  on public.trainer_user_relationships for update
+  using (auth.uid() = user_id and status = 'rejected')
+  with check (auth.uid() = user_id and status = 'pending');
+
+-- Only the status of an existing relationship can change
+revoke update on public.trainer_user_relationships from anon, authenticated;
+grant update (status) on public.trainer_user_relationships to authenticated;
+
+create or replace function public.keep_relationship_parties()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.user_id is distinct from old.user_id or new.trainer_id is distinct from old.trainer_id then
+    raise exception 'The parties of a relationship cannot change' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger keep_relationship_parties
+  before update on public.trainer_user_relationships
+  for each row execute function public.keep_relationship_parties();
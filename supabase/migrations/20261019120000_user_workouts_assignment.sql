@@ -0,0 +1,30 @@
+-- Trainers assign their own workouts to clients with an accepted relationship
+alter table public.user_workouts enable row level security;
+
+create unique index if not exists user_workouts_user_workout_key
+  on public.user_workouts (user_id, workout_id);
+
+create policy "Users read their assigned workouts"
+  on public.user_workouts for select
+  using (auth.uid() = user_id or auth.uid() = trainer_id);
+
+create policy "Trainers assign workouts to accepted clients"
+  on public.user_workouts for insert
+  with check (
+    auth.uid() = trainer_id
+    and exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = user_workouts.user_id
+        and r.status = 'accepted'
+    )
+    and exists (
+      select 1 from public.workouts w
+      where w.id = user_workouts.workout_id
+        and w.created_by = auth.uid()
+    )
+  );
+
+create policy "Trainers unassign their workouts"
+  on public.user_workouts for delete
+  using (auth.uid() = trainer_id);
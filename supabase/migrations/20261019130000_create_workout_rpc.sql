@@ -0,0 +1,73 @@
+-- Create a workout with all its blocks and exercise instances in a single transaction.
+-- Runs with the caller's permissions so the existing RLS policies still apply.
+create or replace function public.create_workout(payload jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_workout_id bigint;
+  v_block_id bigint;
+  v_instance_id bigint;
+  v_block jsonb;
+  v_instance jsonb;
+  v_instance_ids jsonb;
+  v_blocks jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  if not exists (
+    select 1 from public.profiles p
+    where p.uuid = v_user_id and 'trainer' = any (p.roles)
+  ) then
+    raise exception 'Only trainers can create workouts' using errcode = '42501';
+  end if;
+
+  if coalesce(trim(payload ->> 'name'), '') = '' then
+    raise exception 'Workout name is required' using errcode = '22023';
+  end if;
+
+  if jsonb_typeof(payload -> 'blocks') <> 'array' or jsonb_array_length(payload -> 'blocks') = 0 then
+    raise exception 'At least one block is required' using errcode = '22023';
+  end if;
+
+  insert into public.workouts (name, created_by)
+  values (trim(payload ->> 'name'), v_user_id)
+  returning id into v_workout_id;
+
+  for v_block in select value from jsonb_array_elements(payload -> 'blocks')
+  loop
+    insert into public.blocks (name, rounds, workout_id, created_by)
+    values (v_block ->> 'name', (v_block ->> 'rounds')::int, v_workout_id, v_user_id)
+    returning id into v_block_id;
+
+    v_instance_ids := '[]'::jsonb;
+
+    for v_instance in select value from jsonb_array_elements(coalesce(v_block -> 'exercise_instances', '[]'::jsonb))
+    loop
+      insert into public.exercise_instances (reps, rest, exercise_id, weight, block_id, created_by)
+      values (
+        (v_instance ->> 'reps')::int,
+        (v_instance ->> 'rest')::int,
+        (v_instance ->> 'exercise_id')::bigint,
+        v_instance ->> 'weight',
+        v_block_id,
+        v_user_id
+      )
+      returning id into v_instance_id;
+
+      v_instance_ids := v_instance_ids || to_jsonb(v_instance_id);
+    end loop;
+
+    v_blocks := v_blocks || jsonb_build_object('id', v_block_id, 'exercise_instance_ids', v_instance_ids);
+  end loop;
+
+  return jsonb_build_object('workout_id', v_workout_id, 'blocks', v_blocks);
+end;
+$$;
+
+grant execute on function public.create_workout(jsonb) to authenticated;
@@ -0,0 +1,42 @@
+-- Structured exercise metadata used for filtering and per-muscle-group analytics.
+-- Allowed values mirror src/lib/exerciseTaxonomy.ts
+alter table public.exercises
+  add column if not exists primary_muscle_groups text[] not null default '{}',
+  add column if not exists secondary_muscle_groups text[] not null default '{}',
+  add column if not exists equipment text[] not null default '{}',
+  add column if not exists movement_pattern text,
+  add column if not exists difficulty text,
+  add column if not exists is_unilateral boolean not null default false;
+
+alter table public.exercises
+  add constraint exercises_primary_muscle_groups_check check (
+    primary_muscle_groups <@ array[
+      'chest', 'back', 'shoulders', 'biceps', 'triceps', 'forearms', 'core',
+      'glutes', 'quadriceps', 'hamstrings', 'adductors', 'calves', 'full_body'
+    ]::text[]
+  ),
+  add constraint exercises_secondary_muscle_groups_check check (
+    secondary_muscle_groups <@ array[
+      'chest', 'back', 'shoulders', 'biceps', 'triceps', 'forearms', 'core',
+      'glutes', 'quadriceps', 'hamstrings', 'adductors', 'calves', 'full_body'
+    ]::text[]
+  ),
+  add constraint exercises_equipment_check check (
+    equipment <@ array[
+      'bodyweight', 'barbell', 'dumbbell', 'kettlebell', 'machine', 'cable',
+      'band', 'trx', 'medicine_ball', 'box', 'pullup_bar', 'other'
+    ]::text[]
+  ),
+  add constraint exercises_movement_pattern_check check (
+    movement_pattern in (
+      'squat', 'hinge', 'lunge', 'horizontal_push', 'vertical_push',
+      'horizontal_pull', 'vertical_pull', 'carry', 'rotation', 'anti_rotation',
+      'locomotion', 'isolation'
+    )
+  ),
+  add constraint exercises_difficulty_check check (
+    difficulty in ('beginner', 'intermediate', 'advanced')
+  );
+
+create index if not exists exercises_primary_muscle_groups_idx
+  on public.exercises using gin (primary_muscle_groups);
@@ -0,0 +1,125 @@
+-- Tempo notation and per-round overrides on exercise instances, rest between
+-- rounds on blocks. Overrides mirror RoundOverride in src/lib/setVariation.ts
+alter table public.exercise_instances
+  add column if not exists tempo text,
+  add column if not exists round_overrides jsonb;
+
+alter table public.exercise_instances
+  add constraint exercise_instances_tempo_check check (
+    tempo is null or tempo ~ '^[0-9X]-[0-9X]-[0-9X]-[0-9X]$'
+  ),
+  add constraint exercise_instances_round_overrides_check check (
+    round_overrides is null or jsonb_typeof(round_overrides) = 'array'
+  );
+
+alter table public.blocks
+  add column if not exists round_rest_seconds integer;
+
+alter table public.blocks
+  add constraint blocks_round_rest_check check (
+    round_rest_seconds is null or round_rest_seconds >= 0
+  );
+
+-- Write tempo, overrides and round rest when creating a workout
+create or replace function public.create_workout(payload jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_workout_id bigint;
+  v_block_id bigint;
+  v_instance_id bigint;
+  v_block jsonb;
+  v_block_index bigint;
+  v_instance jsonb;
+  v_instance_index bigint;
+  v_instance_ids jsonb;
+  v_blocks jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  if not exists (
+    select 1 from public.profiles p
+    where p.uuid = v_user_id and 'trainer' = any (p.roles)
+  ) then
+    raise exception 'Only trainers can create workouts' using errcode = '42501';
+  end if;
+
+  if coalesce(trim(payload ->> 'name'), '') = '' then
+    raise exception 'Workout name is required' using errcode = '22023';
+  end if;
+
+  if jsonb_typeof(payload -> 'blocks') <> 'array' or jsonb_array_length(payload -> 'blocks') = 0 then
+    raise exception 'At least one block is required' using errcode = '22023';
+  end if;
+
+  insert into public.workouts (name, created_by)
+  values (trim(payload ->> 'name'), v_user_id)
+  returning id into v_workout_id;
+
+  for v_block, v_block_index in
+    select value, ordinality - 1 from jsonb_array_elements(payload -> 'blocks') with ordinality
+  loop
+    insert into public.blocks (
+      name, rounds, position, round_rest_seconds,
+      block_type, time_cap_seconds, interval_seconds, work_seconds, rest_seconds,
+      workout_id, created_by
+    )
+    values (
+      v_block ->> 'name',
+      (v_block ->> 'rounds')::int,
+      coalesce((v_block ->> 'position')::int, v_block_index),
+      (v_block ->> 'round_rest_seconds')::int,
+      coalesce(v_block ->> 'block_type', 'straight'),
+      (v_block ->> 'time_cap_seconds')::int,
+      (v_block ->> 'interval_seconds')::int,
+      (v_block ->> 'work_seconds')::int,
+      (v_block ->> 'rest_seconds')::int,
+      v_workout_id,
+      v_user_id
+    )
+    returning id into v_block_id;
+
+    v_instance_ids := '[]'::jsonb;
+
+    for v_instance, v_instance_index in
+      select value, ordinality - 1
+      from jsonb_array_elements(coalesce(v_block -> 'exercise_instances', '[]'::jsonb)) with ordinality
+    loop
+      insert into public.exercise_instances (
+        reps, rest, exercise_id, load, position,
+        prescription_type, reps_max, duration_seconds, distance_meters,
+        tempo, round_overrides,
+        block_id, created_by
+      )
+      values (
+        (v_instance ->> 'reps')::int,
+        (v_instance ->> 'rest')::int,
+        (v_instance ->> 'exercise_id')::bigint,
+        coalesce(v_instance -> 'load', '{"mode": "none"}'::jsonb),
+        coalesce((v_instance ->> 'position')::int, v_instance_index),
+        coalesce(v_instance ->> 'prescription_type', 'reps'),
+        (v_instance ->> 'reps_max')::int,
+        (v_instance ->> 'duration_seconds')::int,
+        (v_instance ->> 'distance_meters')::numeric,
+        nullif(v_instance ->> 'tempo', ''),
+        nullif(v_instance -> 'round_overrides', 'null'::jsonb),
+        v_block_id,
+        v_user_id
+      )
+      returning id into v_instance_id;
+
+      v_instance_ids := v_instance_ids || to_jsonb(v_instance_id);
+    end loop;
+
+    v_blocks := v_blocks || jsonb_build_object('id', v_block_id, 'exercise_instance_ids', v_instance_ids);
+  end loop;
+
+  return jsonb_build_object('workout_id', v_workout_id, 'blocks', v_blocks);
+end;
+$$;
@@ -0,0 +1,155 @@
+-- Multi-week programs: each week/day slot points at a workout, with optional
+-- weekly progression. Mirrors Program in src/lib/programs.ts
+create table if not exists public.programs (
+  id bigint generated by default as identity primary key,
+  name text not null check (trim(name) <> ''),
+  description text,
+  weeks integer not null check (weeks between 1 and 52),
+  weekly_load_increment_kg numeric(5, 2) check (weekly_load_increment_kg <> 0),
+  weekly_reps_increment integer check (weekly_reps_increment <> 0),
+  created_by uuid not null default auth.uid() references public.profiles (uuid) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- day_of_week follows ISO numbering: 1 = Monday ... 7 = Sunday
+create table if not exists public.program_days (
+  id bigint generated by default as identity primary key,
+  program_id bigint not null references public.programs (id) on delete cascade,
+  week integer not null check (week >= 1),
+  day_of_week smallint not null check (day_of_week between 1 and 7),
+  workout_id bigint not null references public.workouts (id) on delete cascade,
+  unique (program_id, week, day_of_week)
+);
+
+-- Programs assigned to clients, starting on the week of start_date
+create table if not exists public.user_programs (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references public.profiles (uuid) on delete cascade,
+  program_id bigint not null references public.programs (id) on delete cascade,
+  trainer_id uuid not null references public.profiles (uuid) on delete cascade,
+  start_date date not null default current_date,
+  created_at timestamptz not null default now(),
+  unique (user_id, program_id)
+);
+
+create index if not exists programs_created_by_idx on public.programs (created_by);
+create index if not exists program_days_program_id_idx on public.program_days (program_id);
+create index if not exists user_programs_user_id_idx on public.user_programs (user_id);
+
+alter table public.programs enable row level security;
+alter table public.program_days enable row level security;
+alter table public.user_programs enable row level security;
+
+create policy "Trainers manage their programs"
+  on public.programs for all
+  using (auth.uid() = created_by)
+  with check (
+    auth.uid() = created_by
+    and exists (
+      select 1 from public.profiles p
+      where p.uuid = auth.uid() and 'trainer' = any (p.roles)
+    )
+  );
+
+create policy "Users read their assigned programs"
+  on public.programs for select
+  using (
+    exists (
+      select 1 from public.user_programs up
+      where up.program_id = programs.id and up.user_id = auth.uid()
+    )
+  );
+
+create policy "Trainers manage days of their programs"
+  on public.program_days for all
+  using (
+    exists (
+      select 1 from public.programs pr
+      where pr.id = program_days.program_id and pr.created_by = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.programs pr
+      where pr.id = program_days.program_id and pr.created_by = auth.uid()
+    )
+    and exists (
+      select 1 from public.workouts w
+      where w.id = program_days.workout_id and w.created_by = auth.uid()
+    )
+  );
+
+create policy "Users read days of their assigned programs"
+  on public.program_days for select
+  using (
+    exists (
+      select 1 from public.user_programs up
+      where up.program_id = program_days.program_id and up.user_id = auth.uid()
+    )
+  );
+
+-- Same relationship model as user_workouts
+create policy "Users read their program assignments"
+  on public.user_programs for select
+  using (auth.uid() = user_id or auth.uid() = trainer_id);
+
+create policy "Trainers assign programs to accepted clients"
+  on public.user_programs for insert
+  with check (
+    auth.uid() = trainer_id
+    and exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = user_programs.user_id
+        and r.status = 'accepted'
+    )
+    and exists (
+      select 1 from public.programs pr
+      where pr.id = user_programs.program_id
+        and pr.created_by = auth.uid()
+    )
+  );
+
+create policy "Trainers update their program assignments"
+  on public.user_programs for update
+  using (auth.uid() = trainer_id)
+  with check (auth.uid() = trainer_id);
+
+create policy "Trainers unassign their programs"
+  on public.user_programs for delete
+  using (auth.uid() = trainer_id);
+
+-- Clients can open every workout of a program assigned to them
+create policy "Users read workouts of their assigned programs"
+  on public.workouts for select
+  using (
+    exists (
+      select 1
+      from public.program_days pd
+      join public.user_programs up on up.program_id = pd.program_id
+      where pd.workout_id = workouts.id and up.user_id = auth.uid()
+    )
+  );
+
+create policy "Users read blocks of their assigned programs"
+  on public.blocks for select
+  using (
+    exists (
+      select 1
+      from public.program_days pd
+      join public.user_programs up on up.program_id = pd.program_id
+      where pd.workout_id = blocks.workout_id and up.user_id = auth.uid()
+    )
+  );
+
+create policy "Users read exercise instances of their assigned programs"
+  on public.exercise_instances for select
+  using (
+    exists (
+      select 1
+      from public.blocks b
+      join public.program_days pd on pd.workout_id = b.workout_id
+      join public.user_programs up on up.program_id = pd.program_id
+      where b.id = exercise_instances.block_id and up.user_id = auth.uid()
+    )
+  );
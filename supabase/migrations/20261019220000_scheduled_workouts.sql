@@ -0,0 +1,60 @@
+-- Calendar entries: a workout placed on a date for an athlete. Mirrors
+-- ScheduledWorkout in src/hooks/useScheduledWorkouts.ts
+create table if not exists public.scheduled_workouts (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references public.profiles (uuid) on delete cascade,
+  workout_id bigint not null references public.workouts (id) on delete cascade,
+  scheduled_for date not null,
+  status text not null default 'planned' check (status in ('planned', 'completed', 'skipped')),
+  scheduled_by uuid not null default auth.uid() references public.profiles (uuid) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scheduled_workouts_user_date_idx
+  on public.scheduled_workouts (user_id, scheduled_for);
+
+alter table public.scheduled_workouts enable row level security;
+
+-- Athletes schedule workouts they can open: their own or ones assigned to them
+create policy "Users manage their own schedule"
+  on public.scheduled_workouts for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (
+        select 1 from public.workouts w
+        where w.id = scheduled_workouts.workout_id and w.created_by = auth.uid()
+      )
+      or exists (
+        select 1 from public.user_workouts uw
+        where uw.workout_id = scheduled_workouts.workout_id and uw.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Trainers schedule the workouts they assigned to their accepted clients
+create policy "Trainers manage their clients' schedule"
+  on public.scheduled_workouts for all
+  using (
+    exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = scheduled_workouts.user_id
+        and r.status = 'accepted'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = scheduled_workouts.user_id
+        and r.status = 'accepted'
+    )
+    and exists (
+      select 1 from public.user_workouts uw
+      where uw.workout_id = scheduled_workouts.workout_id
+        and uw.user_id = scheduled_workouts.user_id
+        and uw.trainer_id = auth.uid()
+    )
+  );
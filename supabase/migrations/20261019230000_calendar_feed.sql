@@ -0,0 +1,88 @@
+-- Secret per-user token for the iCalendar feed at /api/calendar/<token>.ics.
+-- Calendar apps fetch the feed without a session, so the token is the only
+-- credential: regenerating it invalidates every old subscription
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.calendar_feed_tokens (
+  user_id uuid primary key default auth.uid() references public.profiles (uuid) on delete cascade,
+  token text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feed_tokens enable row level security;
+
+create policy "Users manage their own feed token"
+  on public.calendar_feed_tokens for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Create or replace the current user's token and return it
+create or replace function public.regenerate_calendar_feed_token()
+returns text
+language sql
+security invoker
+set search_path = public
+as $$
+  insert into public.calendar_feed_tokens (user_id)
+  values (auth.uid())
+  on conflict (user_id) do update
+    set token = encode(extensions.gen_random_bytes(24), 'hex'),
+        created_at = now()
+  returning token;
+$$;
+
+-- Scheduled workouts of the token's owner, each with its workout nested the
+-- same way as WORKOUT_NESTED_SELECT (blocks and instances already in order).
+-- Returns null for an unknown token. Security definer because the caller is
+-- anonymous; the token lookup is the authorization check
+create or replace function public.calendar_feed(feed_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  feed_user_id uuid;
+begin
+  select t.user_id into feed_user_id
+  from public.calendar_feed_tokens t
+  where t.token = feed_token;
+
+  if feed_user_id is null then
+    return null;
+  end if;
+
+  return coalesce((
+    select jsonb_agg(
+      to_jsonb(sw) || jsonb_build_object('workout', (
+        select to_jsonb(w) || jsonb_build_object('blocks', coalesce((
+          select jsonb_agg(
+            to_jsonb(b) || jsonb_build_object('exercise_instances', coalesce((
+              select jsonb_agg(
+                to_jsonb(ei) || jsonb_build_object('exercise', to_jsonb(e))
+                order by ei.position, ei.id
+              )
+              from public.exercise_instances ei
+              left join public.exercises e on e.id = ei.exercise_id
+              where ei.block_id = b.id
+            ), '[]'::jsonb))
+            order by b.position, b.id
+          )
+          from public.blocks b
+          where b.workout_id = w.id
+        ), '[]'::jsonb))
+        from public.workouts w
+        where w.id = sw.workout_id
+      ))
+      order by sw.scheduled_for, sw.id
+    )
+    from public.scheduled_workouts sw
+    where sw.user_id = feed_user_id
+      and sw.scheduled_for >= current_date - 90
+  ), '[]'::jsonb);
+end;
+$$;
+
+revoke all on function public.calendar_feed(text) from public;
+grant execute on function public.calendar_feed(text) to anon, authenticated;
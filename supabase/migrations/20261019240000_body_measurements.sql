@@ -0,0 +1,73 @@
+-- Body measurements over time. Mirrors BodyMeasurement in
+-- src/lib/bodyMeasurements.ts; profiles.weight is kept as the latest weight
+create table if not exists public.body_measurements (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references public.profiles (uuid) on delete cascade,
+  measured_on date not null default current_date,
+  weight numeric(5, 2) check (weight > 0),
+  body_fat_percent numeric(4, 1) check (body_fat_percent between 0 and 100),
+  waist_cm numeric(5, 1) check (waist_cm > 0),
+  hips_cm numeric(5, 1) check (hips_cm > 0),
+  chest_cm numeric(5, 1) check (chest_cm > 0),
+  arm_cm numeric(5, 1) check (arm_cm > 0),
+  thigh_cm numeric(5, 1) check (thigh_cm > 0),
+  created_at timestamptz not null default now(),
+  check (num_nonnulls(weight, body_fat_percent, waist_cm, hips_cm, chest_cm, arm_cm, thigh_cm) > 0)
+);
+
+create index if not exists body_measurements_user_date_idx
+  on public.body_measurements (user_id, measured_on desc);
+
+alter table public.body_measurements enable row level security;
+
+create policy "Users manage their own measurements"
+  on public.body_measurements for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Trainers read client measurements"
+  on public.body_measurements for select
+  using (
+    exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = body_measurements.user_id
+        and r.status = 'accepted'
+    )
+  );
+
+-- Copy the most recent recorded weight onto the profile
+create or replace function public.sync_profile_weight()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_user uuid := coalesce(new.user_id, old.user_id);
+begin
+  update public.profiles
+  set weight = (
+    select m.weight
+    from public.body_measurements m
+    where m.user_id = target_user and m.weight is not null
+    order by m.measured_on desc, m.created_at desc
+    limit 1
+  )
+  where uuid = target_user;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists body_measurements_sync_profile_weight on public.body_measurements;
+create trigger body_measurements_sync_profile_weight
+  after insert or update or delete on public.body_measurements
+  for each row execute function public.sync_profile_weight();
+
+-- Keep the single weight saved so far as the first entry of each history
+insert into public.body_measurements (user_id, measured_on, weight)
+select p.uuid, current_date, p.weight
+from public.profiles p
+where p.weight is not null and p.weight > 0
+  and not exists (select 1 from public.body_measurements m where m.user_id = p.uuid);
@@ -0,0 +1,72 @@
+-- Progress photos: private bucket, files stored under <user_id>/, served to the
+-- app through signed URLs only. Mirrors ProgressPhoto in src/lib/progressPhotos.ts
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('progress-photos', 'progress-photos', false, 10485760, array['image/jpeg', 'image/png', 'image/webp', 'image/heic'])
+on conflict (id) do nothing;
+
+create table if not exists public.progress_photos (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references public.profiles (uuid) on delete cascade,
+  taken_on date not null default current_date,
+  pose text not null check (pose in ('front', 'side', 'back')),
+  storage_path text not null unique,
+  created_at timestamptz not null default now(),
+  unique (user_id, taken_on, pose)
+);
+
+create index if not exists progress_photos_user_date_idx
+  on public.progress_photos (user_id, taken_on desc);
+
+alter table public.progress_photos enable row level security;
+
+create policy "Users manage their own progress photos"
+  on public.progress_photos for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and storage_path like auth.uid()::text || '/%');
+
+create policy "Trainers read client progress photos"
+  on public.progress_photos for select
+  using (
+    exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id = progress_photos.user_id
+        and r.status = 'accepted'
+    )
+  );
+
+-- The first folder of every object is its owner's uuid
+create policy "Users upload their own progress photos"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'progress-photos'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users read their own progress photos"
+  on storage.objects for select
+  using (
+    bucket_id = 'progress-photos'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users delete their own progress photos"
+  on storage.objects for delete
+  using (
+    bucket_id = 'progress-photos'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Signing a URL requires select on the object, so this is what lets accepted
+-- trainers see the photos; the relationship going away revokes it
+create policy "Trainers read client progress photos"
+  on storage.objects for select
+  using (
+    bucket_id = 'progress-photos'
+    and exists (
+      select 1 from public.trainer_user_relationships r
+      where r.trainer_id = auth.uid()
+        and r.user_id::text = (storage.foldername(name))[1]
+        and r.status = 'accepted'
+    )
+  );
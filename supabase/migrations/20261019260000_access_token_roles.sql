@@ -0,0 +1,35 @@
+-- Custom access token hook: copies profiles.roles into the user_roles claim so
+-- the app can read the role from the session (src/lib/authorization.ts).
+-- Enable it under Authentication > Hooks > Custom Access Token. Role changes
+-- show up once the token is refreshed
+create or replace function public.custom_access_token_hook(event jsonb)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_roles jsonb;
+begin
+  select to_jsonb(p.roles) into v_roles
+  from public.profiles p
+  where p.uuid = (event->>'user_id')::uuid;
+
+  return jsonb_set(
+    event,
+    '{claims,user_roles}',
+    coalesce(v_roles, '["user"]'::jsonb)
+  );
+end;
+$$;
+
+grant usage on schema public to supabase_auth_admin;
+grant execute on function public.custom_access_token_hook(jsonb) to supabase_auth_admin;
+revoke execute on function public.custom_access_token_hook(jsonb) from authenticated, anon, public;
+
+-- The hook runs as supabase_auth_admin, which only needs to read the roles
+grant select (uuid, roles) on public.profiles to supabase_auth_admin;
+
+create policy "Auth admin reads roles for access tokens"
+  on public.profiles for select
+  to supabase_auth_admin
+  using (true);
@@ -0,0 +1,171 @@
+-- Apply the edit page's diff to a workout in a single transaction. Rows kept by
+-- the edit are updated in place, so their ids (and the logs pointing to them)
+-- stay stable. Payload shape: see toWorkoutUpdatePayload in src/lib/workoutDiff.ts
+create or replace function public.update_workout(payload jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_workout_id bigint := (payload ->> 'workout_id')::bigint;
+  v_block_id bigint;
+  v_block jsonb;
+  v_instance jsonb;
+  v_instance_index bigint;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  if not exists (
+    select 1 from public.workouts w
+    where w.id = v_workout_id and w.created_by = v_user_id
+  ) then
+    raise exception 'Only the owner can edit this workout' using errcode = '42501';
+  end if;
+
+  if payload ? 'name' and coalesce(trim(payload ->> 'name'), '') = '' then
+    raise exception 'Workout name is required' using errcode = '22023';
+  end if;
+
+  -- Deletes and updates only touch rows of this workout, whatever ids were sent
+  delete from public.exercise_instances i
+  using public.blocks b
+  where i.block_id = b.id
+    and b.workout_id = v_workout_id
+    and i.id in (select value::bigint from jsonb_array_elements_text(coalesce(payload -> 'instance_ids_to_delete', '[]'::jsonb)));
+
+  delete from public.blocks b
+  where b.workout_id = v_workout_id
+    and b.id in (select value::bigint from jsonb_array_elements_text(coalesce(payload -> 'block_ids_to_delete', '[]'::jsonb)));
+
+  update public.workouts
+  set name = coalesce(trim(payload ->> 'name'), name),
+      updated_at = now()
+  where id = v_workout_id;
+
+  for v_block in
+    select value from jsonb_array_elements(coalesce(payload -> 'blocks_to_update', '[]'::jsonb))
+  loop
+    update public.blocks
+    set name = v_block ->> 'name',
+        rounds = (v_block ->> 'rounds')::int,
+        position = (v_block ->> 'position')::int,
+        round_rest_seconds = (v_block ->> 'round_rest_seconds')::int,
+        block_type = coalesce(v_block ->> 'block_type', 'straight'),
+        time_cap_seconds = (v_block ->> 'time_cap_seconds')::int,
+        interval_seconds = (v_block ->> 'interval_seconds')::int,
+        work_seconds = (v_block ->> 'work_seconds')::int,
+        rest_seconds = (v_block ->> 'rest_seconds')::int
+    where id = (v_block ->> 'id')::bigint and workout_id = v_workout_id;
+  end loop;
+
+  for v_instance in
+    select value from jsonb_array_elements(coalesce(payload -> 'instances_to_update', '[]'::jsonb))
+  loop
+    update public.exercise_instances i
+    set reps = (v_instance ->> 'reps')::int,
+        rest = (v_instance ->> 'rest')::int,
+        exercise_id = (v_instance ->> 'exercise_id')::bigint,
+        load = coalesce(v_instance -> 'load', '{"mode": "none"}'::jsonb),
+        position = (v_instance ->> 'position')::int,
+        prescription_type = coalesce(v_instance ->> 'prescription_type', 'reps'),
+        reps_max = (v_instance ->> 'reps_max')::int,
+        duration_seconds = (v_instance ->> 'duration_seconds')::int,
+        distance_meters = (v_instance ->> 'distance_meters')::numeric,
+        tempo = nullif(v_instance ->> 'tempo', ''),
+        round_overrides = nullif(v_instance -> 'round_overrides', 'null'::jsonb)
+    from public.blocks b
+    where i.id = (v_instance ->> 'id')::bigint
+      and i.block_id = b.id
+      and b.workout_id = v_workout_id;
+  end loop;
+
+  for v_instance in
+    select value from jsonb_array_elements(coalesce(payload -> 'instances_to_insert', '[]'::jsonb))
+  loop
+    if not exists (
+      select 1 from public.blocks b
+      where b.id = (v_instance ->> 'block_id')::bigint and b.workout_id = v_workout_id
+    ) then
+      raise exception 'Block not found in this workout' using errcode = '22023';
+    end if;
+
+    insert into public.exercise_instances (
+      reps, rest, exercise_id, load, position,
+      prescription_type, reps_max, duration_seconds, distance_meters,
+      tempo, round_overrides,
+      block_id, created_by
+    )
+    values (
+      (v_instance ->> 'reps')::int,
+      (v_instance ->> 'rest')::int,
+      (v_instance ->> 'exercise_id')::bigint,
+      coalesce(v_instance -> 'load', '{"mode": "none"}'::jsonb),
+      (v_instance ->> 'position')::int,
+      coalesce(v_instance ->> 'prescription_type', 'reps'),
+      (v_instance ->> 'reps_max')::int,
+      (v_instance ->> 'duration_seconds')::int,
+      (v_instance ->> 'distance_meters')::numeric,
+      nullif(v_instance ->> 'tempo', ''),
+      nullif(v_instance -> 'round_overrides', 'null'::jsonb),
+      (v_instance ->> 'block_id')::bigint,
+      v_user_id
+    );
+  end loop;
+
+  -- New blocks carry all their instances
+  for v_block in
+    select value from jsonb_array_elements(coalesce(payload -> 'blocks_to_insert', '[]'::jsonb))
+  loop
+    insert into public.blocks (
+      name, rounds, position, round_rest_seconds,
+      block_type, time_cap_seconds, interval_seconds, work_seconds, rest_seconds,
+      workout_id, created_by
+    )
+    values (
+      v_block ->> 'name',
+      (v_block ->> 'rounds')::int,
+      (v_block ->> 'position')::int,
+      (v_block ->> 'round_rest_seconds')::int,
+      coalesce(v_block ->> 'block_type', 'straight'),
+      (v_block ->> 'time_cap_seconds')::int,
+      (v_block ->> 'interval_seconds')::int,
+      (v_block ->> 'work_seconds')::int,
+      (v_block ->> 'rest_seconds')::int,
+      v_workout_id,
+      v_user_id
+    )
+    returning id into v_block_id;
+
+    for v_instance, v_instance_index in
+      select value, ordinality - 1
+      from jsonb_array_elements(coalesce(v_block -> 'exercise_instances', '[]'::jsonb)) with ordinality
+    loop
+      insert into public.exercise_instances (
+        reps, rest, exercise_id, load, position,
+        prescription_type, reps_max, duration_seconds, distance_meters,
+        tempo, round_overrides,
+        block_id, created_by
+      )
+      values (
+        (v_instance ->> 'reps')::int,
+        (v_instance ->> 'rest')::int,
+        (v_instance ->> 'exercise_id')::bigint,
+        coalesce(v_instance -> 'load', '{"mode": "none"}'::jsonb),
+        coalesce((v_instance ->> 'position')::int, v_instance_index),
+        coalesce(v_instance ->> 'prescription_type', 'reps'),
+        (v_instance ->> 'reps_max')::int,
+        (v_instance ->> 'duration_seconds')::int,
+        (v_instance ->> 'distance_meters')::numeric,
+        nullif(v_instance ->> 'tempo', ''),
+        nullif(v_instance -> 'round_overrides', 'null'::jsonb),
+        v_block_id,
+        v_user_id
+      );
+    end loop;
+  end loop;
+end;
+$$;